@@ -1,6 +1,11 @@
 import { useState, useRef, useEffect, lazy, Suspense } from 'react';
 import { LandingPage } from './components/LandingPage';
 import { WebLLMService } from './lib/webllm-service';
+import { OpenAICompatibleBackend, createServerModelConfig } from './lib/openai-compatible-backend';
+import { MockBackend, exposeMockBackend, isMockBackendEnabled } from './lib/mock-backend';
+import type { InferenceBackend, LoadProgressCallback } from './lib/inference-backend';
+import { isInferenceError } from './lib/inference-errors';
+import { runDeviceBenchmark } from './lib/benchmark';
 import { useChatStore } from './store/chat-store';
 import { SecurityManager } from './lib/security-init';
 import { registerServiceWorker } from './lib/sw-register';
@@ -9,6 +14,8 @@ import type { ModelConfig } from './lib/model-config';
 // Lazy load heavy components for better initial load performance
 const ModelSelector = lazy(() => import('./components/ModelSelector').then(m => ({ default: m.ModelSelector })));
 const ChatInterface = lazy(() => import('./components/ChatInterface').then(m => ({ default: m.ChatInterface })));
+const ModelCacheManager = lazy(() => import('./components/ModelCacheManager').then(m => ({ default: m.ModelCacheManager })));
+const DiagnosticsPanel = lazy(() => import('./components/DiagnosticsPanel').then(m => ({ default: m.DiagnosticsPanel })));
 
 // Loading fallback component
 const LoadingFallback = () => (
@@ -21,9 +28,15 @@ const LoadingFallback = () => (
 );
 
 function App() {
-  const [currentView, setCurrentView] = useState<'landing' | 'model-select' | 'chat'>('landing');
+  const [currentView, setCurrentView] = useState<'landing' | 'model-select' | 'chat' | 'storage' | 'diagnostics'>('landing');
   const [isModelLoading, setIsModelLoading] = useState(false);
   const webllmService = useRef(new WebLLMService());
+  const serverBackend = useRef(new OpenAICompatibleBackend());
+  // Dev flag (VITE_MOCK_BACKEND=true): built-in models load into a scripted mock instead of WebLLM
+  const mockBackend = useRef(isMockBackendEnabled() ? new MockBackend() : null);
+  const browserBackend: InferenceBackend = mockBackend.current ?? webllmService.current;
+  // The backend the chat talks to: in-browser WebLLM or a local server
+  const [backend, setBackend] = useState<InferenceBackend>(browserBackend);
 
   const {
     setSelectedModel,
@@ -32,7 +45,12 @@ function App() {
     modelLoadingProgress,
     modelLoadingStatus,
     autoDeleteChats,
-    clearMessages
+    clearConversations,
+    initVault,
+    runInWorker,
+    setLocalServer,
+    setBenchmark,
+    setLastLoadError
   } = useChatStore();
 
   // Initialize security and service worker once on mount
@@ -42,22 +60,29 @@ function App() {
 
     // Register service worker for offline support (PWA)
     registerServiceWorker();
-  }, []); // Run once on mount
+
+    // Detect an existing encrypted vault (stays locked until the passphrase is entered)
+    initVault();
+
+    if (mockBackend.current) {
+      exposeMockBackend(mockBackend.current);
+    }
+  }, [initVault]); // Run once on mount
 
   // PRIVACY: Auto-delete chats when leaving the page (if enabled)
   // This ensures chats are cleared even if the browser crashes or tab is closed
   useEffect(() => {
     const handleBeforeUnload = () => {
-      // Always clear messages on unload when auto-delete is enabled
+      // Always clear every conversation on unload when auto-delete is enabled
       if (autoDeleteChats) {
-        clearMessages();
+        clearConversations();
       }
     };
 
     const handleVisibilityChange = () => {
       // Also clear when tab becomes hidden (more aggressive privacy)
       if (document.hidden && autoDeleteChats) {
-        clearMessages();
+        clearConversations();
       }
     };
 
@@ -71,7 +96,12 @@ function App() {
       window.removeEventListener('pagehide', handleBeforeUnload);
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [autoDeleteChats, clearMessages]);
+  }, [autoDeleteChats, clearConversations]);
+
+  // Engine placement applies the next time a model loads
+  useEffect(() => {
+    webllmService.current.setWorkerMode(runInWorker);
+  }, [runInWorker]);
 
   // Handle dark mode toggle
   useEffect(() => {
@@ -94,14 +124,17 @@ function App() {
 
     try {
       // Set up progress callback that handles both number and InitProgressReport
-      const progressCallback = (progress: number, status: string) => {
-        setModelLoadingProgress(progress, status);
+      const progressCallback: LoadProgressCallback = (progress, status, download) => {
+        setModelLoadingProgress(progress, status, download);
       };
 
-      await webllmService.current.initializeModel(
+      // Only one backend holds a model at a time
+      await serverBackend.current.unloadModel();
+      await browserBackend.initializeModel(
         model,
         progressCallback
       );
+      setBackend(browserBackend);
 
       // Once model is loaded, switch to chat view
       setCurrentView('chat');
@@ -110,17 +143,35 @@ function App() {
     } catch (error) {
       // IMPORTANT: Show error to user (console may be disabled on mobile)
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      setModelLoadingProgress(0, `Failed: ${errorMessage}`);
       setIsModelLoading(false);
 
-      // Show user-friendly error dialog
+      // Cancelled on purpose - nothing to report; downloaded shards stay cached
+      if (isInferenceError(error) && error.code === 'CANCELLED') {
+        setModelLoadingProgress(0, 'Download paused. Select the model again to resume.');
+        return;
+      }
+      setModelLoadingProgress(0, `Failed: ${errorMessage}`);
+      setLastLoadError({
+        backend: browserBackend.kind,
+        modelId: model.id,
+        modelName: model.name,
+        code: isInferenceError(error) ? error.code : null,
+        message: errorMessage,
+        at: new Date().toISOString()
+      });
+
+      // Show user-friendly error dialog; typed errors know their own recovery advice
+      const advice = isInferenceError(error)
+        ? error.hint
+        : `Please try:\n` +
+          `• Select a smaller model (Tiny or Small category)\n` +
+          `• Refresh the page and try again\n` +
+          `• Use a different browser (Chrome/Edge recommended)\n` +
+          `• Ensure you have a stable internet connection`;
       const userMessage = `Failed to load model: ${model.name}\n\n` +
         `Error: ${errorMessage}\n\n` +
-        `Please try:\n` +
-        `• Select a smaller model (Tiny or Small category)\n` +
-        `• Refresh the page and try again\n` +
-        `• Use a different browser (Chrome/Edge recommended)\n` +
-        `• Ensure you have a stable internet connection`;
+        advice +
+        `\n\nNeed help? Export a report from Diagnostics on the model page.`;
 
       alert(userMessage);
 
@@ -129,11 +180,67 @@ function App() {
     }
   };
 
+  // Stop the load in progress; handleModelSelect/handleServerConnect see a CancelledError
+  const handleCancelLoad = () => {
+    browserBackend.cancelLoad();
+    serverBackend.current.cancelLoad();
+  };
+
+  const handleListServerModels = (baseUrl: string) => serverBackend.current.listModels(baseUrl);
+
+  // Connect to an OpenAI-compatible server; errors are shown by the connect form
+  const handleServerConnect = async (baseUrl: string, modelName: string, contextWindow: number) => {
+    setIsModelLoading(true);
+    try {
+      serverBackend.current.setBaseUrl(baseUrl);
+      const model = createServerModelConfig(serverBackend.current.getBaseUrl(), modelName, contextWindow);
+      await serverBackend.current.initializeModel(model, setModelLoadingProgress);
+      setSelectedModel(model);
+
+      // Free the GPU: the browser engine is not needed while a server answers
+      await browserBackend.unloadModel();
+      setBackend(serverBackend.current);
+      setLocalServer({ baseUrl: serverBackend.current.getBaseUrl(), model: modelName, contextWindow });
+      setCurrentView('chat');
+    } catch (error) {
+      if (!(isInferenceError(error) && error.code === 'CANCELLED')) {
+        setLastLoadError({
+          backend: serverBackend.current.kind,
+          modelId: modelName,
+          modelName: `${modelName} (local server)`,
+          code: isInferenceError(error) ? error.code : null,
+          message: error instanceof Error ? error.message : 'Unknown error',
+          at: new Date().toISOString()
+        });
+      }
+      throw error;
+    } finally {
+      setIsModelLoading(false);
+    }
+  };
+
+  // Opt-in speed test; errors are shown by the model selector. The benchmark
+  // model is unloaded afterwards so the engine matches the selected model again.
+  const handleRunBenchmark = async () => {
+    setIsModelLoading(true);
+    try {
+      setBenchmark(await runDeviceBenchmark(browserBackend, setModelLoadingProgress));
+    } finally {
+      await browserBackend.unloadModel();
+      setModelLoadingProgress(0, '');
+      setIsModelLoading(false);
+    }
+  };
+
   // Clean up on unmount
   useEffect(() => {
     const currentService = webllmService.current;
+    const currentServer = serverBackend.current;
+    const currentMock = mockBackend.current;
     return () => {
       currentService.dispose();
+      currentServer.dispose();
+      currentMock?.dispose();
     };
   }, []);
 
@@ -153,14 +260,36 @@ function App() {
               loadingStatus={modelLoadingStatus}
               // Provide back navigation
               onBack={() => setCurrentView('landing')}
+              onListServerModels={handleListServerModels}
+              onServerConnect={handleServerConnect}
+              onCancelLoad={handleCancelLoad}
+              onManageStorage={() => setCurrentView('storage')}
+              onOpenDiagnostics={() => setCurrentView('diagnostics')}
+              onRunBenchmark={handleRunBenchmark}
             />
           </div>
         </Suspense>
       )}
 
+      {currentView === 'storage' && (
+        <Suspense fallback={<LoadingFallback />}>
+          <div className="min-h-screen p-6 bg-theme">
+            <ModelCacheManager onBack={() => setCurrentView('model-select')} />
+          </div>
+        </Suspense>
+      )}
+
+      {currentView === 'diagnostics' && (
+        <Suspense fallback={<LoadingFallback />}>
+          <div className="min-h-screen p-6 bg-theme">
+            <DiagnosticsPanel backend={backend} onBack={() => setCurrentView('model-select')} />
+          </div>
+        </Suspense>
+      )}
+
       {currentView === 'chat' && (
         <Suspense fallback={<LoadingFallback />}>
-          <ChatInterface webllmService={webllmService.current} onBack={() => setCurrentView('model-select')} />
+          <ChatInterface backend={backend} onBack={() => setCurrentView('model-select')} />
         </Suspense>
       )}
     </div>
@@ -0,0 +1,72 @@
+import React from 'react';
+import { GitBranch, User, Bot } from 'lucide-react';
+import type { ChatMessage } from '../lib/webllm-service';
+import { getChildren } from '../lib/conversation-tree';
+
+interface BranchTreeProps {
+  /** Every message in the conversation (all branches) */
+  tree: ChatMessage[];
+  /** The branch currently on screen */
+  activeBranch: ChatMessage[];
+  onSwitchBranch: (messageId: string) => void;
+  disabled?: boolean;
+}
+
+const snippet = (content: string) => {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > 60 ? text.slice(0, 59) + '…' : text || '(empty)';
+};
+
+export const BranchTree: React.FC<BranchTreeProps> = ({ tree, activeBranch, onSwitchBranch, disabled = false }) => {
+  const activeIds = new Set(activeBranch.map(m => m.id));
+
+  // Linear runs are collapsed to one row; rows indent at every fork
+  const renderRun = (start: ChatMessage, depth: number): React.ReactNode => {
+    const run: ChatMessage[] = [start];
+    let children = getChildren(tree, start.id);
+    while (children.length === 1) {
+      run.push(children[0]);
+      children = getChildren(tree, children[0].id);
+    }
+
+    const end = run[run.length - 1];
+    const isActive = activeIds.has(start.id);
+
+    return (
+      <li key={start.id}>
+        <button
+          onClick={() => onSwitchBranch(end.id)}
+          disabled={disabled}
+          className={`w-full flex items-center gap-2 rounded-md px-2 py-1 text-left text-xs transition-colors disabled:cursor-not-allowed ${
+            isActive ? 'bg-primary/20 text-theme-primary' : 'text-theme-secondary hover:bg-white/5'
+          }`}
+          style={{ paddingLeft: `${0.5 + depth * 1}rem` }}
+          aria-current={isActive ? 'true' : undefined}
+        >
+          {start.role === 'user' ? (
+            <User className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
+          ) : (
+            <Bot className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
+          )}
+          <span className="flex-1 truncate">{snippet(start.content)}</span>
+          <span className="flex-shrink-0 text-theme-muted">{run.length} msg{run.length === 1 ? '' : 's'}</span>
+        </button>
+        {children.length > 0 && (
+          <ul>{children.map(child => renderRun(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="glass rounded-lg p-2 my-2" aria-label="Conversation branches">
+      <div className="flex items-center gap-2 px-2 pb-1 text-xs font-medium text-theme-primary">
+        <GitBranch className="h-3 w-3" aria-hidden="true" />
+        Branches
+      </div>
+      <ul className="max-h-48 overflow-y-auto">
+        {getChildren(tree, null).map(root => renderRun(root, 0))}
+      </ul>
+    </div>
+  );
+};
@@ -6,15 +6,23 @@ import {
   Sun,
   Shield,
   Settings,
-  X
+  X,
+  PanelLeft,
+  Layers,
+  Cpu
 } from 'lucide-react';
 import { useChatStore } from '../store/chat-store';
+import { VaultSettings } from './VaultSettings';
+import { GenerationSettingsPanel } from './GenerationSettingsPanel';
+import { HardwareOverrideSettings } from './HardwareOverrideSettings';
+import { getContextWindow, CONTEXT_WARNING_RATIO, CONTEXT_CRITICAL_RATIO } from '../lib/context-budget';
 
 interface ChatHeaderProps {
   onBack?: () => void;
+  onToggleSidebar?: () => void;
 }
 
-export const ChatHeader: React.FC<ChatHeaderProps> = ({ onBack }) => {
+export const ChatHeader: React.FC<ChatHeaderProps> = ({ onBack, onToggleSidebar }) => {
   const {
     messages,
     selectedModel,
@@ -23,10 +31,16 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({ onBack }) => {
     clearAllHistory,
     toggleDarkMode,
     setAutoDeleteChats,
+    autoCompact,
+    setAutoCompact,
+    runInWorker,
+    setRunInWorker,
     exportChat,
-    contextTokenCount
+    contextTokenCount,
+    storageEnabled
   } = useChatStore();
 
+  const contextWindow = getContextWindow(selectedModel);
   const [showSettings, setShowSettings] = React.useState(false);
   const [showClearConfirm, setShowClearConfirm] = React.useState(false);
   const systemInstruction = useChatStore(state => state.systemInstruction);
@@ -34,7 +48,7 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({ onBack }) => {
   const [tempInstruction, setTempInstruction] = React.useState(systemInstruction || '');
   const [showExamples, setShowExamples] = React.useState(false);
   const [saveSuccess, setSaveSuccess] = React.useState(false);
-  // Storage is intentionally disabled in this build; in-memory only.
+  // Storage is in-memory only unless the user opts into the encrypted vault
 
   // Sync temp instruction when system instruction changes from store
   React.useEffect(() => {
@@ -90,6 +104,15 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({ onBack }) => {
                   ←
                 </button>
               )}
+              {onToggleSidebar && (
+                <button
+                  onClick={onToggleSidebar}
+                  className="glass p-2 rounded-lg glass-hover"
+                  aria-label="Toggle conversations"
+                >
+                  <PanelLeft className="h-4 w-4 sm:h-5 sm:w-5 text-theme-secondary" />
+                </button>
+              )}
               <div className="h-6 w-6 sm:h-8 sm:w-8 bg-gradient-to-br from-primary to-accent rounded-lg flex items-center justify-center flex-shrink-0">
                 <img
                   src="/Whitelogotransparentbg.png"
@@ -103,8 +126,8 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({ onBack }) => {
                   {selectedModel ? selectedModel.name : 'No model selected'} •{' '}
                   <span className="hidden sm:inline">{messages.length} msgs • </span>
                   {contextTokenCount > 0 && (
-                    <span className={`${contextTokenCount > 3072 ? 'text-red-400' : contextTokenCount > 2048 ? 'text-yellow-400' : 'text-theme-secondary'}`}>
-                      {contextTokenCount} tokens •{' '}
+                    <span className={`${contextTokenCount > contextWindow * CONTEXT_CRITICAL_RATIO ? 'text-red-400' : contextTokenCount > contextWindow * CONTEXT_WARNING_RATIO ? 'text-yellow-400' : 'text-theme-secondary'}`}>
+                      {contextTokenCount} / {contextWindow} tokens •{' '}
                     </span>
                   )}
                   100% Private
@@ -160,7 +183,7 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({ onBack }) => {
       {/* Settings Panel */}
       {showSettings && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-          <div className="glass rounded-2xl p-6 max-w-md w-full bg-theme">
+          <div className="glass rounded-2xl p-6 max-w-md w-full bg-theme max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-xl font-semibold text-theme-primary">Privacy Settings</h2>
               <button
@@ -260,12 +283,17 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({ onBack }) => {
                   </div>
                 )}
               </div>
+
+              <GenerationSettingsPanel />
+
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
                   <Shield className="h-5 w-5 text-accent" />
                   <div>
                     <p className="text-theme-primary font-medium">Auto-delete chats</p>
-                    <p className="text-xs text-theme-secondary">Clear chat history on session end</p>
+                    <p className="text-xs text-theme-secondary">
+                      {storageEnabled ? 'Unavailable while the vault is enabled' : 'Clear chat history on session end'}
+                    </p>
                   </div>
                 </div>
                 <label className="relative inline-flex items-center cursor-pointer">
@@ -273,6 +301,28 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({ onBack }) => {
                     type="checkbox"
                     checked={autoDeleteChats}
                     onChange={(e) => setAutoDeleteChats(e.target.checked)}
+                    disabled={storageEnabled}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-700 peer-focus:ring-2 peer-focus:ring-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
+                </label>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <Layers className="h-5 w-5 text-accent" />
+                  <div>
+                    <p className="text-theme-primary font-medium">Auto-summarize long chats</p>
+                    <p className="text-xs text-theme-secondary">
+                      When the context fills up, condense the oldest messages with the loaded model
+                    </p>
+                  </div>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={autoCompact}
+                    onChange={(e) => setAutoCompact(e.target.checked)}
                     className="sr-only peer"
                   />
                   <div className="w-11 h-6 bg-gray-700 peer-focus:ring-2 peer-focus:ring-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
@@ -281,17 +331,32 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({ onBack }) => {
 
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
-                    <Shield className="h-5 w-5 text-accent" />
-                    <div>
-                      <p className="text-theme-primary font-medium">Storage disabled (privacy)</p>
-                      <p className="text-xs text-theme-secondary">This build enforces in-memory only operation; no localStorage, Cache, or IndexedDB writes occur.</p>
-                    </div>
+                  <Cpu className="h-5 w-5 text-accent" />
+                  <div>
+                    <p className="text-theme-primary font-medium">Run model in background thread</p>
+                    <p className="text-xs text-theme-secondary">
+                      Keeps typing and scrolling smooth during generation. Applies the next time a model is loaded.
+                    </p>
                   </div>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={runInWorker}
+                    onChange={(e) => setRunInWorker(e.target.checked)}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-700 peer-focus:ring-2 peer-focus:ring-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
+                </label>
               </div>
 
+              <HardwareOverrideSettings />
+
+              <VaultSettings />
+
               <div className="glass rounded-lg p-4 border-green-500/30 bg-green-500/10">
                 <p className="text-sm text-green-500 font-medium">
-                  ✓ All data stays in your browser
+                  ✓ All data stays in your browser{storageEnabled ? ' (encrypted at rest)' : ''}
                 </p>
                 <p className="text-sm text-green-500 font-medium mt-1">
                   ✓ No server connections
@@ -309,9 +374,9 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({ onBack }) => {
       {showClearConfirm && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
           <div className="glass rounded-2xl p-6 max-w-sm w-full bg-theme">
-            <h3 className="text-lg font-semibold text-theme-primary mb-4">Clear all messages?</h3>
+            <h3 className="text-lg font-semibold text-theme-primary mb-4">Clear all conversations?</h3>
             <p className="text-theme-secondary text-sm mb-6">
-              This will permanently delete all messages in the current chat. This action cannot be undone.
+              This will permanently delete every conversation, including their messages and instructions. This action cannot be undone.
             </p>
             <div className="flex gap-3">
               <button
@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { ChatInterface } from './ChatInterface';
+import { useChatStore } from '../store/chat-store';
+import { MockBackend } from '../lib/mock-backend';
+import { MODELS } from '../lib/model-config';
+import { getLeaves } from '../lib/conversation-tree';
+
+const initialState = useChatStore.getState();
+const model = MODELS.qwen2_0_5b;
+
+const send = (text: string) => {
+  fireEvent.change(screen.getByLabelText('Message input'), { target: { value: text } });
+  fireEvent.click(screen.getByLabelText('Send message'));
+};
+
+const lastMessage = () => useChatStore.getState().messages.at(-1);
+
+const waitForReply = () => waitFor(() => expect(useChatStore.getState().isGenerating).toBe(false));
+
+const renderChat = (backend: MockBackend, onBack?: () => void) =>
+  render(<ChatInterface backend={backend} onBack={onBack} />);
+
+describe('ChatInterface with the mock backend', () => {
+  let backend: MockBackend;
+
+  beforeEach(async () => {
+    useChatStore.setState(initialState, true);
+    useChatStore.getState().setSelectedModel(model);
+    backend = new MockBackend({ tokenDelayMs: 0, loadDurationMs: 0 });
+    await backend.initializeModel(model);
+  });
+
+  it('sends a message and streams the reply', async () => {
+    renderChat(backend);
+    send('Hello');
+
+    expect(await screen.findByText('Mock reply #1. You said: "Hello"')).toBeTruthy();
+    await waitForReply();
+    expect(useChatStore.getState().messages.map(m => m.content)).toEqual(['Hello', 'Mock reply #1. You said: "Hello"']);
+    expect(lastMessage()?.stats).toMatchObject({ finishReason: 'stop', completionTokens: 6 });
+    expect(screen.getByLabelText('Response stats').textContent).toContain('6 tokens');
+  });
+
+  it('shows the reply while it is still streaming', async () => {
+    backend.configure({ tokenDelayMs: 20 });
+    backend.scriptReplies('one two three four five six seven eight');
+    renderChat(backend);
+    send('Count');
+
+    await waitFor(() => expect(lastMessage()?.content).toMatch(/^one two/));
+    expect(useChatStore.getState().isGenerating).toBe(true);
+    expect(screen.getByLabelText('Stop generation')).toBeTruthy();
+
+    await waitForReply();
+    expect(lastMessage()?.content).toBe('one two three four five six seven eight');
+    expect(screen.getByLabelText('Send message')).toBeTruthy();
+  });
+
+  it('stops generating and keeps the partial reply', async () => {
+    backend.configure({ tokenDelayMs: 20 });
+    backend.scriptReplies(Array.from({ length: 50 }, (_, i) => `word${i + 1}`).join(' '));
+    renderChat(backend);
+    send('Go on');
+
+    await waitFor(() => expect(lastMessage()?.content).toContain('word2'));
+    fireEvent.click(screen.getByLabelText('Stop generation'));
+
+    await waitFor(() => expect(lastMessage()?.stats?.finishReason).toBe('abort'));
+    const partial = lastMessage()?.content ?? '';
+    expect(partial.startsWith('word1 word2')).toBe(true);
+    expect(partial).not.toContain('word50');
+    expect(useChatStore.getState().isGenerating).toBe(false);
+    expect(screen.queryByRole('alert')).toBeNull();
+  });
+
+  it('regenerates a reply as a new variant', async () => {
+    renderChat(backend);
+    send('Hi');
+    await screen.findByText('Mock reply #1. You said: "Hi"');
+    await waitForReply();
+
+    backend.scriptReplies('A different answer');
+    fireEvent.click(screen.getByLabelText('Regenerate response'));
+    expect(await screen.findByText('A different answer')).toBeTruthy();
+    await waitForReply();
+    expect(lastMessage()?.variants).toHaveLength(2);
+
+    fireEvent.click(screen.getByLabelText('Previous variant'));
+    expect(await screen.findByText('Mock reply #1. You said: "Hi"')).toBeTruthy();
+    expect(lastMessage()?.activeVariant).toBe(0);
+  });
+
+  it('edits a message into a new branch and keeps the original', async () => {
+    renderChat(backend);
+    send('Original question');
+    await screen.findByText('Mock reply #1. You said: "Original question"');
+    await waitForReply();
+
+    const userMessage = screen.getByLabelText('Your message');
+    fireEvent.click(within(userMessage).getByRole('button', { name: 'Edit message' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'Edit message' }), { target: { value: 'Edited question' } });
+    fireEvent.click(screen.getByText('Save & regenerate'));
+
+    expect(await screen.findByText('Mock reply #1. You said: "Edited question"')).toBeTruthy();
+    await waitForReply();
+
+    const state = useChatStore.getState();
+    const conversation = state.conversations.find(c => c.id === state.activeConversationId)!;
+    expect(conversation.messages).toHaveLength(4);
+    expect(getLeaves(conversation.messages)).toHaveLength(2);
+    expect(state.messages.map(m => m.content)).toEqual(['Edited question', 'Mock reply #1. You said: "Edited question"']);
+
+    fireEvent.click(screen.getByLabelText('Previous branch'));
+    expect(await screen.findByText('Mock reply #1. You said: "Original question"')).toBeTruthy();
+  });
+
+  it('shows the recovery actions of a failed reply and retries it in place', async () => {
+    backend.configure({ tokenDelayMs: 1 });
+    backend.failNext('generate', 'oom');
+    renderChat(backend, () => {});
+    send('Too big');
+
+    const alert = await screen.findByRole('alert');
+    expect(alert.textContent).toContain('Out of memory');
+    expect(within(alert).getByText('Choose another model')).toBeTruthy();
+    expect(lastMessage()?.content).toMatch(/Error: Out of memory/);
+
+    fireEvent.click(within(alert).getByText('Try again'));
+    expect(await screen.findByText('Mock reply #1. You said: "Too big"')).toBeTruthy();
+    await waitForReply();
+    expect(screen.queryByRole('alert')).toBeNull();
+    expect(useChatStore.getState().messages).toHaveLength(2);
+  });
+
+  it('reloads the model after a lost GPU and offers to retry', async () => {
+    backend.configure({ tokenDelayMs: 1 });
+    backend.failNext('generate', 'gpu-lost');
+    renderChat(backend);
+    send('Crash');
+
+    expect(await screen.findByText(/Recovered from a GPU reset/)).toBeTruthy();
+    expect(backend.isModelLoaded()).toBe(true);
+
+    fireEvent.click(screen.getByText('Retry reply'));
+    expect(await screen.findByText('Mock reply #1. You said: "Crash"')).toBeTruthy();
+    await waitForReply();
+  });
+
+  it('does not send while no model is loaded', async () => {
+    await backend.unloadModel();
+    renderChat(backend);
+    send('Anyone there?');
+
+    expect(useChatStore.getState().messages).toEqual([]);
+  });
+});
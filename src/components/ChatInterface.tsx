@@ -1,32 +1,109 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { MessageList } from './MessageList';
 import { InputArea } from './InputArea';
 import { ChatHeader } from './ChatHeader';
+import { ConversationSidebar } from './ConversationSidebar';
+import { BranchTree } from './BranchTree';
 import { sanitizeInput } from '../lib/security';
-import { useChatStore } from '../store/chat-store';
-import { WebLLMService } from '../lib/webllm-service';
+import { getLeaves } from '../lib/conversation-tree';
+import {
+  fitContext,
+  countPromptTokens,
+  getContextWindow,
+  CONTEXT_WARNING_RATIO,
+  CONTEXT_CRITICAL_RATIO
+} from '../lib/context-budget';
+import { applySummary, buildSystemPrompt, selectMessagesToCompact, summarizeMessages } from '../lib/compaction';
+import { mergeContinuationStats } from '../lib/generation-stats';
+import { mergeReasoning, ReasoningStream, type ParsedReply, type Reasoning } from '../lib/reasoning';
+import { useChatStore, createMessage } from '../store/chat-store';
 import type { ChatMessage } from '../lib/webllm-service';
-import { AlertCircle, X, Sparkles } from 'lucide-react';
+import type { InferenceBackend } from '../lib/inference-backend';
+import { isInferenceError, type InferenceError, type RecoveryAction } from '../lib/inference-errors';
+import { getSmallerFamilyModel, type ModelConfig } from '../lib/model-config';
+import { AlertCircle, X, Sparkles, Info, GitBranch, Loader2, RotateCcw } from 'lucide-react';
+
+const RECOVERY_LABELS: Record<RecoveryAction, string> = {
+  'retry': 'Try again',
+  'reload-model': 'Reload model',
+  'choose-model': 'Choose another model',
+  'clear-chat': 'Clear chat'
+};
+
+// A failed reply and where it happened, for the recovery banner
+interface GenerationFailure {
+  error: InferenceError;
+  conversationId: string;
+  messageId?: string;
+}
+
+// Progress of the model reload after a lost GPU device
+interface DeviceRecovery {
+  status: 'reloading' | 'recovered';
+  modelName: string;
+  /** The model that was lost, when a smaller one of its family replaced it */
+  replacedModelName?: string;
+  conversationId: string;
+  messageId?: string;
+}
+
+// Sent after a reply cut off at the token limit; chat templates only
+// generate after a user turn, so the model cannot simply resume its own
+const CONTINUE_PROMPT = 'Continue exactly where your last reply stopped. Do not repeat anything you already wrote and do not add an introduction.';
 
 interface ChatInterfaceProps {
-  webllmService: WebLLMService;
+  backend: InferenceBackend;
   onBack?: () => void;
 }
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ webllmService, onBack }) => {
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ backend, onBack }) => {
   const {
     messages,
+    conversations,
+    activeConversationId,
     isGenerating,
     addMessage,
+    updateMessage,
+    setMessageStats,
+    startRegeneration,
+    selectVariant,
+    branchFrom,
+    switchBranch,
     setGenerating,
     selectedModel,
     clearMessages,
     contextTokenCount,
+    updateContextTokenCount,
     showContextWarning: storeShowContextWarning,
     dismissContextWarning,
-    systemInstruction
+    systemInstruction,
+    generationSettings,
+    autoCompact,
+    addContextSummary,
+    removeContextSummary,
+    setModelLoadingProgress,
+    modelLoadingProgress,
+    setSelectedModel
   } = useChatStore();
   const [localShowWarning, setLocalShowWarning] = useState(true);
+  // Sidebar starts open on wide screens, collapsed on phones/tablets
+  const [showSidebar, setShowSidebar] = useState(() => window.innerWidth >= 1024);
+  const [showBranches, setShowBranches] = useState(false);
+  const [isCompacting, setIsCompacting] = useState(false);
+  const [compactionError, setCompactionError] = useState<string | null>(null);
+  const [failure, setFailure] = useState<GenerationFailure | null>(null);
+  const [recovery, setRecovery] = useState<DeviceRecovery | null>(null);
+  // Device losses since the last successful reply; a repeat skips straight to a smaller model
+  const consecutiveLosses = useRef(0);
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId);
+  const hasModelMismatch = !!activeConversation?.model && !!selectedModel &&
+    activeConversation.model.id !== selectedModel.id && messages.length > 0;
+  const conversationTree = activeConversation?.messages ?? [];
+  const branchCount = getLeaves(conversationTree).length;
+  const summaries = activeConversation?.summaries;
+  const { summary: activeSummary, summarizedCount } = applySummary(messages, summaries ?? []);
+  const canCompact = selectMessagesToCompact(messages.slice(summarizedCount)).length > 0;
 
   // Auto-focus input when chat interface mounts
   useEffect(() => {
@@ -42,164 +119,555 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ webllmService, onB
     return () => clearTimeout(timer);
   }, []);
 
-  const handleSendMessage = async (content: string) => {
-    if (!selectedModel || !webllmService.isModelLoaded()) {
-      return;
+  // Replace the store's rough estimate with the tokenizer's count once a reply settles
+  // (summarized messages count as their summary)
+  useEffect(() => {
+    if (isGenerating) return;
+    let cancelled = false;
+    const { summary, history } = applySummary(messages, summaries ?? []);
+    countPromptTokens(history, buildSystemPrompt(systemInstruction, summary), (text) => backend.getTokenCount(text))
+      .then(count => { if (!cancelled && messages.length > 0) updateContextTokenCount(count); })
+      .catch(() => { /* keep the estimate */ });
+    return () => { cancelled = true; };
+  }, [messages, summaries, systemInstruction, isGenerating, backend, updateContextTokenCount]);
+
+  // Fold the older turns of `branch` into a new pinned summary
+  const compactBranch = async (conversationId: string, branch: ChatMessage[]): Promise<boolean> => {
+    const conversation = useChatStore.getState().conversations.find(c => c.id === conversationId);
+    const { summary, history } = applySummary(branch, conversation?.summaries ?? []);
+    const candidates = selectMessagesToCompact(history);
+    if (candidates.length === 0) return false;
+
+    setIsCompacting(true);
+    setCompactionError(null);
+    try {
+      const next = await summarizeMessages(backend, summary, candidates, getContextWindow(selectedModel));
+      // Stopped by the user while summarizing - a partial summary is not kept
+      if (!next || !useChatStore.getState().isGenerating) return false;
+      addContextSummary(conversationId, next);
+      return true;
+    } catch (error) {
+      setCompactionError(error instanceof Error ? error.message : 'Failed to summarize');
+      throw error;
+    } finally {
+      setIsCompacting(false);
     }
+  };
 
-    // Sanitize user input before sending to the model
-    const cleaned = sanitizeInput(content).slice(0, 4000);
+  // Fit the pinned summary + system prompt + recent history + room for the reply
+  const planPrompt = async (conversationId: string, history: ChatMessage[]) => {
+    const conversation = useChatStore.getState().conversations.find(c => c.id === conversationId);
+    const { summary, history: pending } = applySummary(history, conversation?.summaries ?? []);
+    const prompt = buildSystemPrompt(systemInstruction, summary);
+    const budget = await fitContext(pending, {
+      systemInstruction: prompt,
+      contextWindow: getContextWindow(selectedModel),
+      maxOutputTokens: generationSettings.maxTokens,
+      countTokens: (text) => backend.getTokenCount(text)
+    });
+    return { budget, prompt };
+  };
 
-    // Add user message
-    const userMessage: ChatMessage = {
-      role: 'user',
-      content: cleaned,
-      timestamp: new Date()
-    };
-    addMessage(userMessage);
+  // Stream a reply to `history` into the assistant message `messageId`;
+  // with `continued` (that message), the reply is appended to its content
+  const streamReply = async (
+    conversationId: string,
+    messageId: string,
+    history: ChatMessage[],
+    continued?: ChatMessage
+  ) => {
     setGenerating(true);
+    setFailure(null);
+    setRecovery(null);
+    let assistantContent = continued?.content ?? '';
+    let assistantReasoning: Reasoning | undefined = continued?.reasoning;
+    // Reasoning is shown apart from the answer and never stored as its content
+    const reasoningStream = new ReasoningStream(selectedModel?.reasoning === 'always');
+    const showReply = ({ answer, reasoning }: ParsedReply) => {
+      assistantContent = (continued?.content ?? '') + answer;
+      assistantReasoning = mergeReasoning(continued?.reasoning, reasoning);
+      updateMessage(conversationId, messageId, assistantContent, assistantReasoning);
+    };
 
     try {
-      // Prepare messages for the model
-      // Limit context for consumer GPUs - prevents VRAM overload
-      // Keep fewer messages if context is getting large
-      const maxContextMessages = contextTokenCount > 2048 ? 6 : 10;
-      const contextMessages = messages.slice(-maxContextMessages);
-      const allMessages = [...contextMessages, userMessage];
-
-      // Generate response
-      let assistantContent = '';
-      const assistantMessage: ChatMessage = {
-        role: 'assistant',
-        content: '',
-        timestamp: new Date()
-      };
-
-      // Add empty assistant message that will be updated
-      addMessage(assistantMessage);
-
-      await webllmService.generateResponse(
-        allMessages,
-        (token) => {
-          assistantContent += token;
-          // Update the last message in the store
-          useChatStore.setState((state) => ({
-            messages: [
-              ...state.messages.slice(0, -1),
-              { ...assistantMessage, content: assistantContent }
-            ]
-          }));
-        },
-        undefined,
-        systemInstruction
-      );
+      let { budget, prompt } = await planPrompt(conversationId, history);
+
+      // Opt-in: summarize the oldest turns instead of leaving them out of the prompt
+      const contextWindow = getContextWindow(selectedModel);
+      if (autoCompact && (budget.droppedMessages > 0 || budget.promptTokens > contextWindow * CONTEXT_WARNING_RATIO)) {
+        try {
+          if (await compactBranch(conversationId, history)) {
+            ({ budget, prompt } = await planPrompt(conversationId, history));
+          }
+        } catch (error) {
+          console.warn('Compaction failed, continuing without it:', error);
+        }
+        if (!useChatStore.getState().isGenerating) return;
+      }
+
+      await backend.generateResponse(budget.messages, {
+        // Update the assistant message in the store
+        onToken: (token) => showReply(reasoningStream.push(token)),
+        systemInstruction: prompt,
+        settings: { ...generationSettings, maxTokens: budget.maxOutputTokens },
+        onStats: (stats) => setMessageStats(conversationId, messageId, mergeContinuationStats(continued?.stats, stats))
+      });
+      showReply(reasoningStream.finish());
+      consecutiveLosses.current = 0;
     } catch (error) {
+      showReply(reasoningStream.finish());
+      // Stopped by the user: keep what streamed, nothing to recover from
+      if (isInferenceError(error) && error.code === 'CANCELLED') return;
+
       console.error('Error generating response:', error);
       const errorMsg = error instanceof Error ? error.message : 'Failed to generate response';
+      const errorContent = `Error: ${errorMsg}`;
 
-      // Check for GPU device loss - provide helpful recovery message
-      if (errorMsg.includes('GPU_DEVICE_LOST')) {
-        addMessage({
-          role: 'assistant',
-          content: '⚠️ **GPU Memory Error**\n\nThe GPU ran out of memory. This can happen with larger models or long conversations.\n\n**To fix:**\n1. Click the back arrow (←) to return to model selection\n2. Try a smaller model, or\n3. Clear your chat history and reload the same model',
-          timestamp: new Date()
-        });
-      } else {
-        addMessage({
-          role: 'assistant',
-          content: `Error: ${errorMsg}`,
-          timestamp: new Date()
-        });
+      // Keep whatever streamed before the failure
+      updateMessage(
+        conversationId,
+        messageId,
+        assistantContent ? `${assistantContent}\n\n${errorContent}` : errorContent,
+        assistantReasoning
+      );
+
+      // A lost GPU is recovered automatically; other recognised failures
+      // get a banner with their recovery actions
+      if (isInferenceError(error) && error.code === 'DEVICE_LOST') {
+        consecutiveLosses.current += 1;
+        await recoverModel(error, conversationId, messageId);
+      } else if (isInferenceError(error)) {
+        setFailure({ error, conversationId, messageId });
       }
     } finally {
       setGenerating(false);
     }
   };
 
+  // Load the selected model again, or the next smaller one of its family if
+  // that runs out of memory. Nothing else needs restoring: every prompt is
+  // rebuilt from the conversation in the store.
+  const reloadModel = async (
+    preferSmaller: boolean,
+    onAttempt: (model: ModelConfig) => void
+  ): Promise<ModelConfig> => {
+    if (!selectedModel) throw new Error('No model selected');
+    const smaller = getSmallerFamilyModel(selectedModel);
+    const candidates = smaller ? (preferSmaller ? [smaller] : [selectedModel, smaller]) : [selectedModel];
+
+    let lastError: unknown = null;
+    for (const model of candidates) {
+      onAttempt(model);
+      try {
+        await backend.initializeModel(model, setModelLoadingProgress);
+        if (model.id !== selectedModel.id) setSelectedModel(model);
+        return model;
+      } catch (error) {
+        lastError = error;
+        // Only memory trouble is worth another try with a smaller model
+        const code = isInferenceError(error) ? error.code : null;
+        if (code !== 'OUT_OF_MEMORY' && code !== 'DEVICE_LOST') break;
+      }
+    }
+    throw lastError;
+  };
+
+  // Reload after `error` and offer to retry the failed reply; falls back to
+  // the error banner if no model could be loaded
+  const recoverModel = async (error: InferenceError, conversationId: string, messageId?: string) => {
+    const lostModelName = selectedModel?.name;
+    try {
+      const model = await reloadModel(consecutiveLosses.current > 1, (attempt) =>
+        setRecovery({ status: 'reloading', modelName: attempt.name, conversationId, messageId })
+      );
+      setFailure(null);
+      setRecovery({
+        status: 'recovered',
+        modelName: model.name,
+        replacedModelName: model.name !== lostModelName ? lostModelName : undefined,
+        conversationId,
+        messageId
+      });
+    } catch (reloadError) {
+      console.error('Error reloading model:', reloadError);
+      setRecovery(null);
+      setFailure({ error: isInferenceError(reloadError) ? reloadError : error, conversationId, messageId });
+    }
+  };
+
+  // Re-run a failed reply into the same message instead of adding a variant
+  const retryInPlace = (conversationId: string, messageId: string) => {
+    if (isGenerating || conversationId !== activeConversationId || !backend.isModelLoaded()) return;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index < 0 || messages[index].role !== 'assistant') return;
+
+    updateMessage(conversationId, messageId, '');
+    setMessageStats(conversationId, messageId, null);
+    streamReply(conversationId, messageId, messages.slice(0, index));
+  };
+
+  // Append a user message after `history` and stream the assistant reply
+  const sendUserMessage = async (content: string, history: ChatMessage[]) => {
+    if (!selectedModel || !backend.isModelLoaded()) {
+      return;
+    }
+
+    // Stream into the conversation that was active when the message was sent
+    const conversationId = activeConversationId;
+
+    // Sanitize user input before sending to the model
+    let cleaned: string;
+    try {
+      cleaned = sanitizeInput(content).slice(0, 4000);
+    } catch (error) {
+      if (isInferenceError(error)) setFailure({ error, conversationId });
+      return;
+    }
+
+    const userMessage = createMessage('user', cleaned);
+    addMessage(userMessage);
+
+    // Add empty assistant message that will be updated
+    const assistantMessage = createMessage('assistant', '');
+    addMessage(assistantMessage);
+
+    await streamReply(conversationId, assistantMessage.id, [...history, userMessage]);
+  };
+
+  const handleSendMessage = (content: string) => sendUserMessage(content, messages);
+
+  // Send an edited copy of a previous user message as a new branch;
+  // the original message and its replies stay in the tree
+  const handleEditMessage = (index: number, content: string) => {
+    if (isGenerating || messages[index]?.role !== 'user') return;
+    const history = messages.slice(0, index);
+    branchFrom(messages[index].parentId ?? null);
+    sendUserMessage(content, history);
+  };
+
+  // Continue from any message in a new branch
+  const handleFork = (messageId: string) => {
+    if (isGenerating) return;
+    branchFrom(messageId);
+    const textarea = document.querySelector('textarea[aria-label="Message input"]') as HTMLTextAreaElement;
+    textarea?.focus();
+  };
+
+  // Re-roll an assistant reply, keeping the previous ones as variants
+  const handleRegenerate = (messageId: string) => {
+    if (isGenerating || !selectedModel || !backend.isModelLoaded()) return;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index < 0 || messages[index].role !== 'assistant') return;
+
+    startRegeneration(activeConversationId, messageId);
+    streamReply(activeConversationId, messageId, messages.slice(0, index));
+  };
+
+  // Extend the latest reply after it hit the token limit, in the same message
+  const handleContinue = (messageId: string) => {
+    if (isGenerating || !selectedModel || !backend.isModelLoaded()) return;
+    const index = messages.findIndex(m => m.id === messageId);
+    const message = messages[index];
+    if (index < 0 || index !== messages.length - 1 || message.role !== 'assistant') return;
+
+    // The instruction is only sent, never stored in the conversation
+    const history = [...messages.slice(0, index + 1), createMessage('user', CONTINUE_PROMPT)];
+    streamReply(activeConversationId, messageId, history, message);
+  };
+
+  // Summarize older messages on demand (from the context warning)
+  const handleCompact = async () => {
+    if (isGenerating || !selectedModel || !backend.isModelLoaded()) return;
+    setGenerating(true);
+    try {
+      await compactBranch(activeConversationId, messages);
+    } catch (error) {
+      console.error('Error summarizing conversation:', error);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleRecovery = async (action: RecoveryAction) => {
+    if (!failure) return;
+    switch (action) {
+      case 'retry':
+        setFailure(null);
+        if (failure.messageId) {
+          retryInPlace(failure.conversationId, failure.messageId);
+        }
+        break;
+      case 'reload-model':
+        if (recovery?.status === 'reloading') return;
+        setFailure(null);
+        await recoverModel(failure.error, failure.conversationId, failure.messageId);
+        break;
+      case 'choose-model':
+        onBack?.();
+        break;
+      case 'clear-chat':
+        clearMessages();
+        setFailure(null);
+        break;
+    }
+  };
+
   const handleStopGeneration = () => {
-    webllmService.cancelGeneration();
+    backend.cancelGeneration();
     setGenerating(false);
   };
 
   // Show context warning based on token count
   const shouldShowContextWarning = storeShowContextWarning && localShowWarning;
-  const contextPercentage = Math.min(100, Math.round((contextTokenCount / 4096) * 100));
+  const contextWindow = getContextWindow(selectedModel);
+  const contextPercentage = Math.min(100, Math.round((contextTokenCount / contextWindow) * 100));
 
-  // Determine warning severity (critical at 75% of 4K limit)
-  const isContextCritical = contextTokenCount > 3072;
+  // Determine warning severity (warning at 75%, critical at 90% of the model's window)
+  const isContextCritical = contextTokenCount > contextWindow * CONTEXT_CRITICAL_RATIO;
 
   return (
     <div id="main-content" className="flex flex-col h-screen bg-dark" role="main" aria-label="Chat interface">
-      <ChatHeader onBack={onBack} />
-
-      {/* Context Warning Banner */}
-      {shouldShowContextWarning && (
-        <div className={`${isContextCritical ? 'bg-red-500/10 border-red-500/30' : 'bg-yellow-500/10 border-yellow-500/30'} border-b px-4 py-3`}>
-          <div className="max-w-6xl mx-auto flex items-start gap-3">
-            <AlertCircle className={`h-5 w-5 ${isContextCritical ? 'text-red-400' : 'text-yellow-400'} flex-shrink-0 mt-0.5`} />
-            <div className="flex-1 text-sm">
-              <p className={`${isContextCritical ? 'text-red-200' : 'text-yellow-200'} font-medium mb-1`}>
-                {isContextCritical ? '🔴 Critical: Context too long!' : '⚠️ Long conversation detected'}
-                <span className="ml-2 text-xs opacity-80">
-                  (~{contextTokenCount.toLocaleString()} tokens, {contextPercentage}% of limit)
-                </span>
-              </p>
-              <p className={`${isContextCritical ? 'text-red-300/80' : 'text-yellow-300/80'} text-xs`}>
-                {isContextCritical ? (
-                  <>
-                    <strong>Consumer GPUs struggle with long context.</strong> Responses may be slow, degraded, or cause crashes.
+      <ChatHeader onBack={onBack} onToggleSidebar={() => setShowSidebar(!showSidebar)} />
+
+      <div className="flex flex-1 overflow-hidden">
+        {showSidebar && (
+          <ConversationSidebar
+            disabled={isGenerating}
+            onClose={() => { if (window.innerWidth < 1024) setShowSidebar(false); }}
+          />
+        )}
+
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* Context Warning Banner */}
+          {shouldShowContextWarning && (
+            <div className={`${isContextCritical ? 'bg-red-500/10 border-red-500/30' : 'bg-yellow-500/10 border-yellow-500/30'} border-b px-4 py-3`}>
+              <div className="max-w-6xl mx-auto flex items-start gap-3">
+                <AlertCircle className={`h-5 w-5 ${isContextCritical ? 'text-red-400' : 'text-yellow-400'} flex-shrink-0 mt-0.5`} />
+                <div className="flex-1 text-sm">
+                  <p className={`${isContextCritical ? 'text-red-200' : 'text-yellow-200'} font-medium mb-1`}>
+                    {isContextCritical ? '🔴 Critical: Context too long!' : '⚠️ Long conversation detected'}
+                    <span className="ml-2 text-xs opacity-80">
+                      (~{contextTokenCount.toLocaleString()} tokens, {contextPercentage}% of limit)
+                    </span>
+                  </p>
+                  <p className={`${isContextCritical ? 'text-red-300/80' : 'text-yellow-300/80'} text-xs`}>
+                    {isContextCritical ? (
+                      <>
+                        <strong>The model's {contextWindow.toLocaleString()}-token window is almost full.</strong> The oldest messages are left out of the prompt, and long context may slow down or crash consumer GPUs.
+                        <button
+                          onClick={() => { clearMessages(); setLocalShowWarning(false); }}
+                          className={`ml-1 underline ${isContextCritical ? 'hover:text-red-200' : 'hover:text-yellow-200'} font-semibold`}
+                        >
+                          Clear chat now
+                        </button> (recommended)
+                      </>
+                    ) : (
+                      <>
+                        Large context uses more VRAM and may slow down responses on consumer GPUs (RTX 4050/3060/etc).
+                        <button
+                          onClick={() => { clearMessages(); setLocalShowWarning(false); }}
+                          className="ml-1 underline hover:text-yellow-200 font-medium"
+                        >
+                          Clear chat
+                        </button> to improve performance, or continue if your GPU can handle it.
+                      </>
+                    )}
+                  </p>
+                  {canCompact && (
                     <button
-                      onClick={() => { clearMessages(); setLocalShowWarning(false); }}
-                      className={`ml-1 underline ${isContextCritical ? 'hover:text-red-200' : 'hover:text-yellow-200'} font-semibold`}
+                      onClick={handleCompact}
+                      disabled={isGenerating || !backend.isModelLoaded()}
+                      className={`mt-1 text-xs underline font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
+                        isContextCritical ? 'text-red-300 hover:text-red-200' : 'text-yellow-300 hover:text-yellow-200'
+                      }`}
                     >
-                      Clear chat now
-                    </button> (recommended)
+                      Summarize older messages instead
+                    </button>
+                  )}
+                </div>
+                <button
+                  onClick={() => { dismissContextWarning(); setLocalShowWarning(false); }}
+                  className={`${isContextCritical ? 'text-red-400/60 hover:text-red-400' : 'text-yellow-400/60 hover:text-yellow-400'} transition-colors`}
+                  aria-label="Dismiss warning"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Conversation was started with a different model than the one loaded */}
+          {hasModelMismatch && (
+            <div className="bg-blue-500/10 border-blue-500/30 border-b px-4 py-2">
+              <div className="max-w-6xl mx-auto flex items-center gap-3 text-xs text-blue-300">
+                <Info className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+                <span className="flex-1">
+                  This conversation was last used with <strong>{activeConversation?.model?.name}</strong>.
+                  New replies will come from {selectedModel?.name}.
+                </span>
+                {onBack && (
+                  <button onClick={onBack} className="underline hover:text-blue-200 font-medium">
+                    Change model
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Compaction status */}
+          {(isCompacting || compactionError) && (
+            <div className="bg-blue-500/10 border-blue-500/30 border-b px-4 py-2">
+              <div className="max-w-6xl mx-auto flex items-center gap-3 text-xs text-blue-300">
+                {isCompacting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin" aria-hidden="true" />
+                    <span className="flex-1">Summarizing earlier messages to free up context…</span>
                   </>
                 ) : (
                   <>
-                    Large context uses more VRAM and may slow down responses on consumer GPUs (RTX 4050/3060/etc).
-                    <button
-                      onClick={() => { clearMessages(); setLocalShowWarning(false); }}
-                      className="ml-1 underline hover:text-yellow-200 font-medium"
-                    >
-                      Clear chat
-                    </button> to improve performance, or continue if your GPU can handle it.
+                    <AlertCircle className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+                    <span className="flex-1">Could not summarize earlier messages: {compactionError}</span>
+                    <button onClick={() => setCompactionError(null)} aria-label="Dismiss">
+                      <X className="h-4 w-4" />
+                    </button>
                   </>
                 )}
-              </p>
+              </div>
             </div>
-            <button
-              onClick={() => { dismissContextWarning(); setLocalShowWarning(false); }}
-              className={`${isContextCritical ? 'text-red-400/60 hover:text-red-400' : 'text-yellow-400/60 hover:text-yellow-400'} transition-colors`}
-              aria-label="Dismiss warning"
-            >
-              <X className="h-4 w-4" />
-            </button>
-          </div>
-        </div>
-      )}
-
-      <div className="flex-1 overflow-hidden flex flex-col max-w-6xl mx-auto w-full px-2 sm:px-4">
-        <MessageList messages={messages} isGenerating={isGenerating} />
-
-        {/* System Instruction Indicator */}
-        {systemInstruction && systemInstruction.trim() && (
-          <div className="px-2 py-1.5 bg-purple-500/10 border-t border-purple-500/20">
-            <div className="flex items-center gap-2 text-xs text-purple-300">
-              <Sparkles className="h-3 w-3" aria-hidden="true" />
-              <span className="truncate">
-                Custom instructions active: "{systemInstruction.slice(0, 50)}{systemInstruction.length > 50 ? '...' : ''}"
-              </span>
+          )}
+
+          {/* Reloading after a lost GPU device, then offer to retry the failed reply */}
+          {recovery && (
+            <div className="bg-blue-500/10 border-blue-500/30 border-b px-4 py-2" role="status">
+              <div className="max-w-6xl mx-auto flex items-center gap-3 text-xs text-blue-300">
+                {recovery.status === 'reloading' ? (
+                  <>
+                    <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin" aria-hidden="true" />
+                    <span className="flex-1">
+                      The GPU was reset. Reloading {recovery.modelName}… {modelLoadingProgress > 0 && `${Math.round(modelLoadingProgress)}%`}
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <RotateCcw className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+                    <span className="flex-1">
+                      Recovered from a GPU reset: <strong>{recovery.modelName}</strong> is loaded
+                      {recovery.replacedModelName && <> in place of {recovery.replacedModelName}, which ran out of memory</>}.
+                    </span>
+                    {recovery.messageId && recovery.conversationId === activeConversationId && (
+                      <button
+                        onClick={() => retryInPlace(recovery.conversationId, recovery.messageId!)}
+                        disabled={isGenerating}
+                        className="underline hover:text-blue-200 font-medium disabled:opacity-50"
+                      >
+                        Retry reply
+                      </button>
+                    )}
+                    <button onClick={() => setRecovery(null)} aria-label="Dismiss">
+                      <X className="h-4 w-4" />
+                    </button>
+                  </>
+                )}
+              </div>
             </div>
-          </div>
-        )}
+          )}
+
+          {/* Generation failed: explain and offer the recovery steps for its error code */}
+          {failure && (
+            <div className="bg-red-500/10 border-red-500/30 border-b px-4 py-3" role="alert">
+              <div className="max-w-6xl mx-auto flex items-start gap-3">
+                <AlertCircle className="h-5 w-5 text-red-400 flex-shrink-0 mt-0.5" aria-hidden="true" />
+                <div className="flex-1 text-sm">
+                  <p className="text-red-200 font-medium">{failure.error.message}</p>
+                  {failure.error.hint && (
+                    <p className="text-red-300/80 text-xs mt-0.5">{failure.error.hint}</p>
+                  )}
+                  {failure.error.actions.length > 0 && (
+                    <div className="flex flex-wrap gap-3 mt-1.5">
+                      {failure.error.actions
+                        .filter(action => action !== 'choose-model' || onBack)
+                        .filter(action => action !== 'retry' || failure.messageId)
+                        .map(action => (
+                          <button
+                            key={action}
+                            onClick={() => handleRecovery(action)}
+                            disabled={isGenerating || recovery?.status === 'reloading'}
+                            className="text-xs underline font-medium text-red-300 hover:text-red-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                          >
+                            {RECOVERY_LABELS[action]}
+                          </button>
+                        ))}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => setFailure(null)}
+                  className="text-red-400/60 hover:text-red-400 transition-colors"
+                  aria-label="Dismiss error"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          )}
 
-        <InputArea
-          onSendMessage={handleSendMessage}
-          isGenerating={isGenerating}
-          onStopGeneration={handleStopGeneration}
-          disabled={!selectedModel || !webllmService.isModelLoaded()}
-        />
+          <div className="flex-1 overflow-hidden flex flex-col max-w-6xl mx-auto w-full px-2 sm:px-4">
+            {branchCount > 1 && (
+              <div className="px-2 pt-2">
+                <button
+                  onClick={() => setShowBranches(!showBranches)}
+                  className="flex items-center gap-1 text-xs text-theme-secondary hover:text-theme-primary"
+                  aria-expanded={showBranches}
+                >
+                  <GitBranch className="h-3 w-3" aria-hidden="true" />
+                  {branchCount} branches {showBranches ? '▾' : '▸'}
+                </button>
+                {showBranches && (
+                  <BranchTree
+                    tree={conversationTree}
+                    activeBranch={messages}
+                    onSwitchBranch={switchBranch}
+                    disabled={isGenerating}
+                  />
+                )}
+              </div>
+            )}
+
+            <MessageList
+              messages={messages}
+              isGenerating={isGenerating}
+              onEditMessage={selectedModel && backend.isModelLoaded() ? handleEditMessage : undefined}
+              onRegenerate={selectedModel && backend.isModelLoaded() ? handleRegenerate : undefined}
+              onContinue={selectedModel && backend.isModelLoaded() ? handleContinue : undefined}
+              onSelectVariant={selectVariant}
+              tree={conversationTree}
+              onFork={handleFork}
+              onSwitchBranch={switchBranch}
+              contextSummary={activeSummary}
+              summarizedCount={summarizedCount}
+              onRemoveSummary={(summaryId) => removeContextSummary(activeConversationId, summaryId)}
+            />
+
+            {/* System Instruction Indicator */}
+            {systemInstruction && systemInstruction.trim() && (
+              <div className="px-2 py-1.5 bg-purple-500/10 border-t border-purple-500/20">
+                <div className="flex items-center gap-2 text-xs text-purple-300">
+                  <Sparkles className="h-3 w-3" aria-hidden="true" />
+                  <span className="truncate">
+                    Custom instructions active: "{systemInstruction.slice(0, 50)}{systemInstruction.length > 50 ? '...' : ''}"
+                  </span>
+                </div>
+              </div>
+            )}
+
+            <InputArea
+              onSendMessage={handleSendMessage}
+              isGenerating={isGenerating}
+              onStopGeneration={handleStopGeneration}
+              disabled={!selectedModel || !backend.isModelLoaded()}
+            />
+          </div>
+        </div>
       </div>
     </div>
   );
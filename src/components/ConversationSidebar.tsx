@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { MessageSquare, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { useChatStore } from '../store/chat-store';
+import { VaultSettings } from './VaultSettings';
+
+interface ConversationSidebarProps {
+  disabled?: boolean;
+  onClose?: () => void;
+}
+
+export const ConversationSidebar: React.FC<ConversationSidebarProps> = ({ disabled = false, onClose }) => {
+  const {
+    conversations,
+    activeConversationId,
+    createConversation,
+    switchConversation,
+    renameConversation,
+    deleteConversation,
+    vaultStatus
+  } = useChatStore();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  // Most recently used conversations first
+  const sorted = [...conversations].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  const startRename = (id: string, title: string) => {
+    setEditingId(id);
+    setEditTitle(title);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      renameConversation(editingId, editTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleSelect = (id: string) => {
+    if (disabled || id === activeConversationId) return;
+    switchConversation(id);
+    onClose?.();
+  };
+
+  return (
+    <aside
+      className="w-64 flex-shrink-0 border-r border-theme bg-theme flex flex-col h-full"
+      aria-label="Conversations"
+    >
+      <div className="p-3 border-b border-theme">
+        <button
+          onClick={() => { createConversation(); onClose?.(); }}
+          disabled={disabled}
+          className="w-full glass px-3 py-2 rounded-lg glass-hover flex items-center justify-center gap-2 text-sm text-theme-primary
+                   disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="h-4 w-4" />
+          New chat
+        </button>
+      </div>
+
+      <nav className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sorted.map(conversation => {
+          const isActive = conversation.id === activeConversationId;
+          const isEditing = conversation.id === editingId;
+          const isConfirmingDelete = conversation.id === confirmDeleteId;
+
+          return (
+            <div
+              key={conversation.id}
+              className={`group rounded-lg px-2 py-2 text-sm transition-colors ${
+                isActive ? 'bg-primary/20 text-theme-primary' : 'text-theme-secondary hover:bg-white/5'
+              }`}
+            >
+              {isEditing ? (
+                <div className="flex items-center gap-1">
+                  <input
+                    value={editTitle}
+                    onChange={(e) => setEditTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    autoFocus
+                    maxLength={60}
+                    aria-label="Conversation title"
+                    className="flex-1 min-w-0 glass rounded px-2 py-1 text-sm text-theme-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                  <button onClick={commitRename} className="p-1 hover:text-green-400" aria-label="Save title">
+                    <Check className="h-3 w-3" />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="p-1 hover:text-red-400" aria-label="Cancel rename">
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ) : isConfirmingDelete ? (
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 truncate text-red-400">Delete this chat?</span>
+                  <button
+                    onClick={() => { deleteConversation(conversation.id); setConfirmDeleteId(null); }}
+                    className="p-1 text-red-400 hover:text-red-300"
+                    aria-label="Confirm delete"
+                  >
+                    <Check className="h-3 w-3" />
+                  </button>
+                  <button onClick={() => setConfirmDeleteId(null)} className="p-1 hover:text-theme-primary" aria-label="Cancel delete">
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleSelect(conversation.id)}
+                    disabled={disabled && !isActive}
+                    className="flex-1 min-w-0 flex items-start gap-2 text-left disabled:cursor-not-allowed"
+                    aria-current={isActive ? 'true' : undefined}
+                  >
+                    <MessageSquare className="h-4 w-4 flex-shrink-0 mt-0.5" aria-hidden="true" />
+                    <span className="min-w-0">
+                      <span className="block truncate">{conversation.title}</span>
+                      <span className="block truncate text-xs text-theme-muted">
+                        {conversation.model?.name || 'No model'} • {conversation.updatedAt.toLocaleDateString()}
+                      </span>
+                    </span>
+                  </button>
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => startRename(conversation.id, conversation.title)}
+                      className="p-1 hover:text-theme-primary"
+                      aria-label="Rename conversation"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                    <button
+                      onClick={() => setConfirmDeleteId(conversation.id)}
+                      disabled={disabled && isActive}
+                      className="p-1 hover:text-red-400 disabled:opacity-50"
+                      aria-label="Delete conversation"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </nav>
+
+      <div className="p-3 border-t border-theme text-xs text-theme-muted text-center">
+        {vaultStatus === 'locked' ? (
+          <VaultSettings compact />
+        ) : vaultStatus === 'unlocked' ? (
+          'Saved encrypted on this device'
+        ) : (
+          'Conversations are kept in memory only'
+        )}
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,242 @@
+import React, { useRef, useState } from 'react';
+import { PackagePlus, Plus, Upload, Trash2 } from 'lucide-react';
+import { useChatStore } from '../store/chat-store';
+import { createCustomModel, parseCustomModelManifest, MODEL_CATEGORIES } from '../lib/custom-models';
+import type { ModelConfig } from '../lib/model-config';
+import { DEFAULT_CONTEXT_WINDOW } from '../lib/context-budget';
+
+interface CustomModelFormProps {
+  disabled?: boolean;
+}
+
+// Manifests are a few KB; anything much larger is the wrong file
+const MAX_MANIFEST_BYTES = 1024 * 1024;
+
+// Register MLC-compiled models that are not in the built-in catalog
+export const CustomModelForm: React.FC<CustomModelFormProps> = ({ disabled = false }) => {
+  const customModels = useChatStore(state => state.customModels);
+  const storageEnabled = useChatStore(state => state.storageEnabled);
+  const { addCustomModels, removeCustomModel } = useChatStore();
+  const [expanded, setExpanded] = useState(false);
+  const [id, setId] = useState('');
+  const [name, setName] = useState('');
+  const [modelUrl, setModelUrl] = useState('');
+  const [modelLibUrl, setModelLibUrl] = useState('');
+  const [vramRequiredMB, setVramRequiredMB] = useState(1024);
+  const [contextWindow, setContextWindow] = useState(DEFAULT_CONTEXT_WINDOW);
+  const [category, setCategory] = useState<ModelConfig['category'] | ''>('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+    try {
+      const model = createCustomModel({
+        id,
+        name,
+        modelUrl,
+        modelLibUrl,
+        vramRequiredMB,
+        contextWindow,
+        category: category || undefined
+      });
+      addCustomModels([model]);
+      setNotice(`Added ${model.name} to the ${model.category} models`);
+      setId('');
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add the model');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setNotice(null);
+    try {
+      if (file.size > MAX_MANIFEST_BYTES) {
+        throw new Error('The manifest is too large (maximum 1 MB)');
+      }
+      const models = parseCustomModelManifest(await file.text());
+      addCustomModels(models);
+      setNotice(`Imported ${models.length} model${models.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the manifest');
+    }
+  };
+
+  const inputClass = 'w-full glass rounded-md px-3 py-2 text-sm text-theme-primary placeholder-theme-muted focus:outline-none focus:ring-2 focus:ring-primary';
+
+  return (
+    <div className="glass rounded-xl p-4 sm:p-5 mb-6 sm:mb-8">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-3 text-left"
+        aria-expanded={expanded}
+      >
+        <PackagePlus className="h-4 w-4 sm:h-5 sm:w-5 text-accent flex-shrink-0" />
+        <div className="flex-1">
+          <h3 className="text-sm sm:text-base font-medium text-theme-primary">
+            Add your own model{customModels.length > 0 && ` (${customModels.length} added)`}
+          </h3>
+          <p className="text-xs text-theme-muted">Any MLC-compiled model: weights on Hugging Face or your network plus its WebGPU library</p>
+        </div>
+        <span className="text-theme-secondary text-sm">{expanded ? '▾' : '▸'}</span>
+      </button>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          <form onSubmit={handleAdd} className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-theme-secondary mb-1">Model id</label>
+                <input
+                  value={id}
+                  onChange={(e) => setId(e.target.value)}
+                  placeholder="MyModel-1B-Instruct-q4f16_1-MLC"
+                  aria-label="Model id"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-theme-secondary mb-1">Display name (optional)</label>
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="My Model 1B"
+                  aria-label="Display name"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs text-theme-secondary mb-1">Model URL</label>
+              <input
+                value={modelUrl}
+                onChange={(e) => setModelUrl(e.target.value)}
+                placeholder="https://huggingface.co/you/MyModel-1B-Instruct-q4f16_1-MLC"
+                aria-label="Model URL"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-theme-secondary mb-1">Model library URL (.wasm)</label>
+              <input
+                value={modelLibUrl}
+                onChange={(e) => setModelLibUrl(e.target.value)}
+                placeholder="https://huggingface.co/you/MyModel-1B-Instruct-q4f16_1-MLC/resolve/main/model-webgpu.wasm"
+                aria-label="Model library URL"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs text-theme-secondary mb-1">VRAM needed (MB)</label>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={vramRequiredMB}
+                  onChange={(e) => setVramRequiredMB(Number(e.target.value) || 0)}
+                  aria-label="VRAM needed in megabytes"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-theme-secondary mb-1">Context window</label>
+                <input
+                  type="number"
+                  min={512}
+                  max={131072}
+                  step={512}
+                  value={contextWindow}
+                  onChange={(e) => setContextWindow(Number(e.target.value) || 0)}
+                  aria-label="Context window in tokens"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-theme-secondary mb-1">Category</label>
+                <select
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value as ModelConfig['category'] | '')}
+                  aria-label="Category"
+                  className={inputClass}
+                >
+                  <option value="">Auto (by VRAM)</option>
+                  {MODEL_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                type="submit"
+                disabled={disabled || !id.trim()}
+                className="gradient-primary px-4 py-2 rounded-md text-sm text-white disabled:opacity-50 flex items-center gap-2"
+              >
+                <Plus className="h-4 w-4" />
+                Add model
+              </button>
+              <button
+                type="button"
+                onClick={() => fileInput.current?.click()}
+                disabled={disabled}
+                className="glass px-3 py-2 rounded-md text-sm text-theme-primary hover:bg-primary/20 transition-colors disabled:opacity-50 flex items-center gap-1"
+              >
+                <Upload className="h-4 w-4" />
+                Import manifest
+              </button>
+              <input
+                ref={fileInput}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImport}
+                className="hidden"
+                aria-label="Model manifest file"
+              />
+            </div>
+          </form>
+
+          {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+          {notice && <p className="text-xs text-green-400">{notice}</p>}
+
+          {customModels.length > 0 && (
+            <ul className="space-y-2">
+              {customModels.map(model => (
+                <li key={model.id} className="flex items-center gap-3 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-theme-primary truncate">{model.name}</p>
+                    <p className="text-xs text-theme-muted truncate">{model.id} · {model.category} · {model.contextWindow.toLocaleString()} tokens</p>
+                  </div>
+                  <button
+                    onClick={() => removeCustomModel(model.id)}
+                    disabled={disabled}
+                    className="p-1.5 rounded-md text-red-400 hover:bg-red-500/20 transition-colors disabled:opacity-50"
+                    aria-label={`Remove ${model.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <p className="text-xs text-theme-muted">
+            {storageEnabled
+              ? 'Custom models are saved in your encrypted storage.'
+              : 'Custom models are forgotten when you close the tab unless encrypted storage is on.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Stethoscope, Download, Copy, RefreshCw, Loader2, EyeOff } from 'lucide-react';
+import { useChatStore } from '../store/chat-store';
+import {
+  collectDiagnostics,
+  redactReport,
+  formatDiagnosticsJson,
+  formatDiagnosticsMarkdown,
+  DEFAULT_REDACTION
+} from '../lib/diagnostics';
+import type { DiagnosticReport, RedactionOptions } from '../lib/diagnostics';
+import type { InferenceBackend } from '../lib/inference-backend';
+
+interface DiagnosticsPanelProps {
+  backend: InferenceBackend;
+  onBack: () => void;
+}
+
+type ReportFormat = 'markdown' | 'json';
+
+const REDACTION_LABELS: { key: keyof RedactionOptions; label: string }[] = [
+  { key: 'gpuName', label: 'GPU model name' },
+  { key: 'userAgent', label: 'Full user agent' },
+  { key: 'addresses', label: 'Server, mirror and other addresses, custom and server model names' }
+];
+
+// Support report: what the helpdesk needs when a model fails to load
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ backend, onBack }) => {
+  const [report, setReport] = useState<DiagnosticReport | null>(null);
+  const [redaction, setRedaction] = useState<RedactionOptions>(DEFAULT_REDACTION);
+  const [format, setFormat] = useState<ReportFormat>('markdown');
+  const [copied, setCopied] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setReport(null);
+    // Read state at collection time; the report is a snapshot
+    const state = useChatStore.getState();
+    setReport(await collectDiagnostics({
+      backend: backend.isModelLoaded() ? backend.kind : null,
+      selectedModelId: state.selectedModel?.id ?? null,
+      runInWorker: state.runInWorker,
+      modelMirrorUrl: state.modelMirrorUrl,
+      localServerUrl: backend.kind === 'openai-compatible' ? state.localServer.baseUrl : null,
+      customModelIds: state.customModels.map(model => model.id),
+      hardwareOverride: state.hardwareOverride,
+      benchmark: state.benchmark,
+      lastLoadError: state.lastLoadError
+    }));
+  }, [backend]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // The preview is exactly what gets exported
+  const output = report
+    ? (format === 'json' ? formatDiagnosticsJson : formatDiagnosticsMarkdown)(redactReport(report, redaction))
+    : '';
+
+  const handleDownload = () => {
+    const blob = new Blob([output], { type: format === 'json' ? 'application/json' : 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `oblivai-diagnostics-${new Date().toISOString().split('T')[0]}.${format === 'json' ? 'json' : 'md'}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(output);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard blocked - the download still works
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 sm:p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <button onClick={onBack} className="glass p-2 rounded-lg glass-hover">
+          Back
+        </button>
+        <Stethoscope className="h-5 w-5 text-accent" aria-hidden="true" />
+        <h2 className="text-xl sm:text-2xl font-bold text-theme-primary">Diagnostics</h2>
+      </div>
+
+      <div className="glass rounded-xl p-4 sm:p-5 mb-6 space-y-4">
+        <p className="text-sm text-theme-secondary">
+          Send this report to support when a model will not load. It describes your browser, GPU, storage and the last error, and never includes your chats. Review it below before sharing.
+        </p>
+
+        <fieldset>
+          <legend className="flex items-center gap-2 text-sm font-medium text-theme-primary mb-2">
+            <EyeOff className="h-4 w-4 text-accent" aria-hidden="true" />
+            Redact
+          </legend>
+          <div className="flex flex-wrap gap-x-5 gap-y-2">
+            {REDACTION_LABELS.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 text-sm text-theme-secondary cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={redaction[key]}
+                  onChange={(e) => setRedaction(prev => ({ ...prev, [key]: e.target.checked }))}
+                  className="accent-primary"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-md overflow-hidden glass" role="group" aria-label="Report format">
+            {(['markdown', 'json'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setFormat(option)}
+                aria-pressed={format === option}
+                className={`px-3 py-1.5 text-sm transition-colors ${
+                  format === option ? 'bg-primary/30 text-theme-primary' : 'text-theme-secondary hover:bg-primary/10'
+                }`}
+              >
+                {option === 'json' ? 'JSON' : 'Markdown'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleDownload}
+            disabled={!report}
+            className="gradient-primary px-3 py-1.5 rounded-md text-sm text-white disabled:opacity-50 flex items-center gap-1"
+          >
+            <Download className="h-4 w-4" aria-hidden="true" />
+            Download
+          </button>
+          <button
+            onClick={handleCopy}
+            disabled={!report}
+            className="glass px-3 py-1.5 rounded-md text-sm text-theme-primary hover:bg-primary/20 transition-colors disabled:opacity-50 flex items-center gap-1"
+          >
+            <Copy className="h-4 w-4" aria-hidden="true" />
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button
+            onClick={refresh}
+            disabled={!report}
+            className="glass px-3 py-1.5 rounded-md text-sm text-theme-secondary hover:bg-primary/20 transition-colors disabled:opacity-50 flex items-center gap-1"
+          >
+            <RefreshCw className="h-4 w-4" aria-hidden="true" />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {report ? (
+        <pre
+          className="glass rounded-xl p-4 text-xs text-theme-secondary font-mono whitespace-pre-wrap break-words max-h-[60vh] overflow-y-auto"
+          aria-label="Report preview"
+        >
+          {output}
+        </pre>
+      ) : (
+        <div className="flex items-center justify-center gap-2 text-theme-secondary py-12">
+          <Loader2 className="h-5 w-5 animate-spin" aria-hidden="true" />
+          Collecting…
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, RotateCcw, X, Brain } from 'lucide-react';
+import { useChatStore } from '../store/chat-store';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  GENERATION_LIMITS,
+  GENERATION_PRESETS,
+  type GenerationSettings
+} from '../lib/generation-settings';
+import { supportsThinkingToggle } from '../lib/reasoning';
+
+interface SliderFieldProps {
+  label: string;
+  hint: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+const SliderField: React.FC<SliderFieldProps> = ({ label, hint, value, min, max, step, onChange }) => (
+  <div>
+    <div className="flex items-center justify-between text-sm">
+      <label className="text-theme-primary">{label}</label>
+      <span className="text-xs text-theme-secondary tabular-nums">{value}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      aria-label={label}
+      className="w-full accent-primary"
+    />
+    <p className="text-xs text-theme-muted">{hint}</p>
+  </div>
+);
+
+// Sampling controls for the active conversation
+export const GenerationSettingsPanel: React.FC = () => {
+  const generationSettings = useChatStore(state => state.generationSettings);
+  const setGenerationSettings = useChatStore(state => state.setGenerationSettings);
+  const selectedModel = useChatStore(state => state.selectedModel);
+  const [stopInput, setStopInput] = useState('');
+
+  const update = (patch: Partial<GenerationSettings>) => setGenerationSettings(patch);
+
+  const addStopSequence = () => {
+    // Let users type escapes like \n for a newline
+    const sequence = stopInput.replace(/\\n/g, '\n').replace(/\\t/g, '\t');
+    if (!sequence || generationSettings.stop.includes(sequence)) return;
+    update({ stop: [...generationSettings.stop, sequence] });
+    setStopInput('');
+  };
+
+  const activePreset = GENERATION_PRESETS.find(preset =>
+    Object.entries(preset.settings).every(([key, value]) =>
+      JSON.stringify(generationSettings[key as keyof GenerationSettings]) === JSON.stringify(value)
+    )
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <SlidersHorizontal className="h-4 w-4 text-accent" />
+        <label className="text-sm text-theme-primary font-medium">Generation settings</label>
+        <button
+          onClick={() => update(DEFAULT_GENERATION_SETTINGS)}
+          className="ml-auto glass px-2 py-1 rounded-md text-xs text-theme-secondary hover:text-theme-primary flex items-center gap-1"
+          aria-label="Reset generation settings"
+        >
+          <RotateCcw className="h-3 w-3" />
+          Reset
+        </button>
+      </div>
+      <p className="text-xs text-theme-muted mb-3">Applies to this conversation only.</p>
+
+      <div className="flex items-center gap-2 mb-3 flex-wrap">
+        {GENERATION_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => update(preset.settings)}
+            className={`glass px-2 py-1 rounded-md text-sm text-theme-primary ${
+              activePreset?.id === preset.id ? 'ring-1 ring-primary' : ''
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        {supportsThinkingToggle(selectedModel) && (
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Brain className="h-4 w-4 text-accent flex-shrink-0" aria-hidden="true" />
+              <div>
+                <p className="text-sm text-theme-primary">Thinking</p>
+                <p className="text-xs text-theme-muted">Reason step by step before answering. Slower, but better on hard questions.</p>
+              </div>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer flex-shrink-0">
+              <input
+                type="checkbox"
+                checked={generationSettings.thinking}
+                onChange={(e) => update({ thinking: e.target.checked })}
+                aria-label="Thinking"
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-700 peer-focus:ring-2 peer-focus:ring-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
+            </label>
+          </div>
+        )}
+        <SliderField
+          label="Temperature"
+          hint="Lower is more focused and repeatable; higher is more varied."
+          value={generationSettings.temperature}
+          {...GENERATION_LIMITS.temperature}
+          onChange={(temperature) => update({ temperature })}
+        />
+        <SliderField
+          label="Top P"
+          hint="Sample only from the most likely tokens covering this probability."
+          value={generationSettings.topP}
+          {...GENERATION_LIMITS.topP}
+          onChange={(topP) => update({ topP })}
+        />
+        <SliderField
+          label="Max tokens"
+          hint="Upper limit on reply length. Long replies use more GPU memory."
+          value={generationSettings.maxTokens}
+          {...GENERATION_LIMITS.maxTokens}
+          onChange={(maxTokens) => update({ maxTokens })}
+        />
+        <SliderField
+          label="Frequency penalty"
+          hint="Positive values discourage repeating the same words."
+          value={generationSettings.frequencyPenalty}
+          {...GENERATION_LIMITS.penalty}
+          onChange={(frequencyPenalty) => update({ frequencyPenalty })}
+        />
+        <SliderField
+          label="Presence penalty"
+          hint="Positive values encourage moving on to new topics."
+          value={generationSettings.presencePenalty}
+          {...GENERATION_LIMITS.penalty}
+          onChange={(presencePenalty) => update({ presencePenalty })}
+        />
+
+        <div>
+          <label className="block text-sm text-theme-primary mb-1">Seed</label>
+          <input
+            type="number"
+            value={generationSettings.seed ?? ''}
+            onChange={(e) => update({ seed: e.target.value === '' ? null : Number(e.target.value) })}
+            placeholder="Random"
+            aria-label="Seed"
+            className="w-full glass rounded-md px-3 py-2 text-sm text-theme-primary placeholder-theme-muted focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <p className="text-xs text-theme-muted">Set a number to get the same reply for the same prompt.</p>
+        </div>
+
+        <div>
+          <label className="block text-sm text-theme-primary mb-1">Stop sequences</label>
+          <div className="flex gap-2">
+            <input
+              value={stopInput}
+              onChange={(e) => setStopInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addStopSequence();
+                }
+              }}
+              placeholder="e.g. ### or \n\n"
+              aria-label="New stop sequence"
+              disabled={generationSettings.stop.length >= GENERATION_LIMITS.maxStopSequences}
+              className="flex-1 min-w-0 glass rounded-md px-3 py-2 text-sm text-theme-primary placeholder-theme-muted focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+            />
+            <button
+              onClick={addStopSequence}
+              disabled={!stopInput || generationSettings.stop.length >= GENERATION_LIMITS.maxStopSequences}
+              className="glass px-3 py-2 rounded-md text-sm text-theme-primary hover:bg-primary/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add
+            </button>
+          </div>
+          {generationSettings.stop.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {generationSettings.stop.map(sequence => (
+                <span key={sequence} className="glass rounded-md px-2 py-0.5 text-xs text-theme-primary flex items-center gap-1">
+                  <code>{JSON.stringify(sequence).slice(1, -1)}</code>
+                  <button
+                    onClick={() => update({ stop: generationSettings.stop.filter(s => s !== sequence) })}
+                    className="hover:text-red-400"
+                    aria-label={`Remove stop sequence ${sequence}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-theme-muted mt-1">
+            Up to {GENERATION_LIMITS.maxStopSequences}. Generation ends when one is produced.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { MemoryStick } from 'lucide-react';
+import { useChatStore } from '../store/chat-store';
+
+interface HardwareOverrideSettingsProps {
+  /** Detected values, shown as placeholders */
+  detectedMemoryGB?: number;
+  detectedVramGB?: number;
+}
+
+const MAX_MEMORY_GB = 1024;
+const MAX_VRAM_GB = 256;
+
+// '' means "use the detected value"
+const parseGB = (value: string, max: number): number | null | undefined => {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 && parsed <= max ? parsed : undefined;
+};
+
+// Browsers report RAM only up to 8GB and never report VRAM, so let users say what they have
+export const HardwareOverrideSettings: React.FC<HardwareOverrideSettingsProps> = ({ detectedMemoryGB, detectedVramGB }) => {
+  const hardwareOverride = useChatStore(state => state.hardwareOverride);
+  const setHardwareOverride = useChatStore(state => state.setHardwareOverride);
+  const [memory, setMemory] = useState(hardwareOverride.memoryGB?.toString() ?? '');
+  const [vram, setVram] = useState(hardwareOverride.vramGB?.toString() ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const memoryGB = parseGB(memory, MAX_MEMORY_GB);
+    const vramGB = parseGB(vram, MAX_VRAM_GB);
+    if (memoryGB === undefined) {
+      setError(`System RAM must be between 0 and ${MAX_MEMORY_GB} GB`);
+      return;
+    }
+    if (vramGB === undefined) {
+      setError(`GPU memory must be between 0 and ${MAX_VRAM_GB} GB`);
+      return;
+    }
+    setError(null);
+    setHardwareOverride({ memoryGB, vramGB });
+  };
+
+  const handleReset = () => {
+    setMemory('');
+    setVram('');
+    setError(null);
+    setHardwareOverride({ memoryGB: null, vramGB: null });
+  };
+
+  const isOverridden = hardwareOverride.memoryGB !== null || hardwareOverride.vramGB !== null;
+  const inputClass = 'w-full glass rounded-md px-3 py-2 text-sm text-theme-primary placeholder-theme-muted focus:outline-none focus:ring-2 focus:ring-primary';
+
+  return (
+    <form onSubmit={handleSave} className="space-y-2">
+      <div className="flex items-center gap-3">
+        <MemoryStick className="h-5 w-5 text-accent flex-shrink-0" />
+        <div>
+          <p className="text-theme-primary font-medium">Device memory</p>
+          <p className="text-xs text-theme-secondary">
+            Browsers cap reported RAM at 8GB and do not report GPU memory. Enter your own to check models against it.
+          </p>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-theme-secondary mb-1">System RAM (GB)</label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={memory}
+            onChange={(e) => setMemory(e.target.value)}
+            placeholder={detectedMemoryGB !== undefined ? `Detected: ${detectedMemoryGB}` : 'Detected'}
+            aria-label="System RAM in gigabytes"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-theme-secondary mb-1">GPU memory (GB)</label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={vram}
+            onChange={(e) => setVram(e.target.value)}
+            placeholder={detectedVramGB !== undefined ? `At least ${detectedVramGB}` : 'Unknown'}
+            aria-label="GPU memory in gigabytes"
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          className="glass px-3 py-1.5 rounded-md text-sm text-theme-primary hover:bg-primary/20 transition-colors"
+        >
+          Save
+        </button>
+        {isOverridden && (
+          <button
+            type="button"
+            onClick={handleReset}
+            className="glass px-3 py-1.5 rounded-md text-sm text-theme-secondary hover:bg-primary/20 transition-colors"
+          >
+            Use detected values
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+    </form>
+  );
+};
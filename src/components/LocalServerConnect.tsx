@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Server, Loader2, RefreshCw, Plug } from 'lucide-react';
+import { useChatStore } from '../store/chat-store';
+import { validateServerUrl } from '../lib/openai-compatible-backend';
+
+interface LocalServerConnectProps {
+  /** Queries the server for the models it offers */
+  onListModels: (baseUrl: string) => Promise<string[]>;
+  /** Connects to the server and opens the chat */
+  onConnect: (baseUrl: string, model: string, contextWindow: number) => Promise<void>;
+  disabled?: boolean;
+}
+
+// Connect form for an OpenAI-compatible server on this machine
+export const LocalServerConnect: React.FC<LocalServerConnectProps> = ({ onListModels, onConnect, disabled = false }) => {
+  const localServer = useChatStore(state => state.localServer);
+  const [expanded, setExpanded] = useState(false);
+  const [baseUrl, setBaseUrl] = useState(localServer.baseUrl);
+  const [model, setModel] = useState(localServer.model);
+  const [contextWindow, setContextWindow] = useState(localServer.contextWindow);
+  const [models, setModels] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      validateServerUrl(baseUrl);
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not reach the server');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFetchModels = () => run(async () => {
+    const found = await onListModels(baseUrl);
+    setModels(found);
+    if (found.length > 0 && !found.includes(model)) {
+      setModel(found[0]);
+    }
+  });
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => onConnect(baseUrl, model.trim(), contextWindow));
+  };
+
+  const inputClass = 'w-full glass rounded-md px-3 py-2 text-sm text-theme-primary placeholder-theme-muted focus:outline-none focus:ring-2 focus:ring-primary';
+
+  return (
+    <div className="glass rounded-xl p-4 sm:p-5 mb-6 sm:mb-8">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-3 text-left"
+        aria-expanded={expanded}
+      >
+        <Server className="h-4 w-4 sm:h-5 sm:w-5 text-accent flex-shrink-0" />
+        <div className="flex-1">
+          <h3 className="text-sm sm:text-base font-medium text-theme-primary">Use a local server</h3>
+          <p className="text-xs text-theme-muted">llama.cpp, Ollama, LM Studio or any OpenAI-compatible API running on this device</p>
+        </div>
+        <span className="text-theme-secondary text-sm">{expanded ? '▾' : '▸'}</span>
+      </button>
+
+      {expanded && (
+        <form onSubmit={handleConnect} className="mt-4 space-y-3">
+          <div>
+            <label className="block text-xs text-theme-secondary mb-1">Server URL</label>
+            <div className="flex gap-2">
+              <input
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder="http://localhost:11434/v1"
+                aria-label="Server URL"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={handleFetchModels}
+                disabled={busy || disabled}
+                className="glass px-3 py-2 rounded-md text-sm text-theme-primary hover:bg-primary/20 transition-colors disabled:opacity-50 flex items-center gap-1 flex-shrink-0"
+                aria-label="Fetch models from server"
+              >
+                <RefreshCw className={`h-4 w-4 ${busy ? 'animate-spin' : ''}`} />
+                Models
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="sm:col-span-2">
+              <label className="block text-xs text-theme-secondary mb-1">Model</label>
+              <input
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                list="local-server-models"
+                placeholder="e.g. llama3.2"
+                aria-label="Model name"
+                className={inputClass}
+              />
+              <datalist id="local-server-models">
+                {models.map(m => <option key={m} value={m} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-xs text-theme-secondary mb-1">Context window</label>
+              <input
+                type="number"
+                min={512}
+                max={131072}
+                step={512}
+                value={contextWindow}
+                onChange={(e) => setContextWindow(Math.max(512, Number(e.target.value) || 0))}
+                aria-label="Context window in tokens"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={busy || disabled || !model.trim()}
+              className="gradient-primary px-4 py-2 rounded-md text-sm text-white disabled:opacity-50 flex items-center gap-2"
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plug className="h-4 w-4" />}
+              Connect
+            </button>
+            <p className="text-xs text-theme-muted">
+              Messages are sent to this server instead of staying in the browser.
+            </p>
+          </div>
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </form>
+      )}
+    </div>
+  );
+};
@@ -1,37 +1,151 @@
 import React, { useEffect, useRef } from 'react';
-import { User, Bot, Copy, Check } from 'lucide-react';
+import { User, Bot, Brain, Copy, Check, Pencil, RefreshCw, ChevronDown, ChevronLeft, ChevronRight, ChevronsRight, GitBranch, Pin, Trash2 } from 'lucide-react';
 import type { ChatMessage } from '../lib/webllm-service';
+import type { ContextSummary } from '../lib/compaction';
+import { getSiblings } from '../lib/conversation-tree';
 import { safeMarkdownToHtml } from '../lib/security';
+import { formatGenerationStats } from '../lib/generation-stats';
 
 interface MessageListProps {
   messages: ChatMessage[];
   isGenerating?: boolean;
+  /** Called with the index of an edited user message and its new text */
+  onEditMessage?: (index: number, content: string) => void;
+  /** Called to re-roll an assistant reply */
+  onRegenerate?: (messageId: string) => void;
+  /** Called to extend a reply that stopped at the token limit */
+  onContinue?: (messageId: string) => void;
+  /** Called to show a different reply variant */
+  onSelectVariant?: (messageId: string, variantIndex: number) => void;
+  /** Every message of the conversation, used to find sibling branches */
+  tree?: ChatMessage[];
+  /** Called to start a new branch after a message */
+  onFork?: (messageId: string) => void;
+  /** Called to show the branch running through a message */
+  onSwitchBranch?: (messageId: string) => void;
+  /** Pinned summary standing in for the first `summarizedCount` messages */
+  contextSummary?: ContextSummary | null;
+  summarizedCount?: number;
+  onRemoveSummary?: (summaryId: string) => void;
 }
 
-export const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating = false }) => {
+export const MessageList: React.FC<MessageListProps> = ({
+  messages,
+  isGenerating = false,
+  onEditMessage,
+  onRegenerate,
+  onContinue,
+  onSelectVariant,
+  tree,
+  onFork,
+  onSwitchBranch,
+  contextSummary = null,
+  summarizedCount = 0,
+  onRemoveSummary
+}) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [copiedIndex, setCopiedIndex] = React.useState<number | null>(null);
+  const [copiedId, setCopiedId] = React.useState<string | null>(null);
+  const [editingIndex, setEditingIndex] = React.useState<number | null>(null);
+  const [editText, setEditText] = React.useState('');
+  const [showSummarized, setShowSummarized] = React.useState(false);
+  // Reasoning sections start folded; these are the ones the user opened
+  const [openReasoning, setOpenReasoning] = React.useState<Set<string>>(new Set());
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const copyToClipboard = async (text: string, index: number) => {
+  // Only the latest reply can be regenerated; earlier ones would invalidate what follows
+  const lastAssistantId = [...messages].reverse().find(m => m.role === 'assistant')?.id;
+
+  const copyToClipboard = async (text: string, messageId: string) => {
     try {
       await navigator.clipboard.writeText(text);
-      setCopiedIndex(index);
-      setTimeout(() => setCopiedIndex(null), 2000);
+      setCopiedId(messageId);
+      setTimeout(() => setCopiedId(null), 2000);
     } catch {
       // Failed to copy text - clipboard API may not be available
     }
   };
 
+  const startEditing = (index: number, content: string) => {
+    setEditingIndex(index);
+    setEditText(content);
+  };
+
+  const submitEdit = () => {
+    if (editingIndex === null || !editText.trim()) return;
+    onEditMessage?.(editingIndex, editText.trim());
+    setEditingIndex(null);
+  };
+
   const renderMarkdown = (content: string) => {
     // Use the secure markdown to HTML converter with ReDoS protection
     const sanitizedHtml = safeMarkdownToHtml(content);
     return <div dangerouslySetInnerHTML={{ __html: sanitizedHtml }} className="prose prose-invert max-w-none" />;
   };
 
+  const toggleReasoning = (messageId: string) => {
+    setOpenReasoning(prev => {
+      const next = new Set(prev);
+      if (!next.delete(messageId)) next.add(messageId);
+      return next;
+    });
+  };
+
+  const renderReasoning = (message: ChatMessage) => {
+    if (!message.reasoning) return null;
+    const { content, durationSeconds } = message.reasoning;
+    const isOpen = openReasoning.has(message.id);
+    return (
+      <div className="mb-2">
+        <button
+          onClick={() => toggleReasoning(message.id)}
+          className="flex items-center gap-1 text-xs text-theme-secondary hover:text-theme-primary transition-colors"
+          aria-expanded={isOpen}
+        >
+          <Brain className={`h-3 w-3 ${durationSeconds === null ? 'animate-pulse' : ''}`} aria-hidden="true" />
+          {durationSeconds === null ? 'Thinking…' : `Thought for ${Math.max(1, Math.round(durationSeconds))}s`}
+          {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        </button>
+        {isOpen && content && (
+          <p className="mt-1 pl-3 border-l-2 border-white/20 whitespace-pre-wrap text-xs sm:text-sm text-theme-secondary">
+            {content}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderSummaryCard = () => contextSummary && (
+    <div className="glass rounded-2xl p-3 sm:p-4 border border-accent/30" role="note" aria-label="Conversation summary">
+      <div className="flex items-center gap-2 mb-2 text-xs text-theme-secondary">
+        <Pin className="h-3 w-3 text-accent" aria-hidden="true" />
+        <span className="font-medium text-theme-primary">Summary of {summarizedCount} earlier messages</span>
+        <span className="hidden sm:inline">• sent instead of the originals</span>
+        <button
+          onClick={() => setShowSummarized(!showSummarized)}
+          className="ml-auto hover:text-theme-primary underline"
+          aria-expanded={showSummarized}
+        >
+          {showSummarized ? 'Hide originals' : 'Show originals'}
+        </button>
+        {onRemoveSummary && (
+          <button
+            onClick={() => onRemoveSummary(contextSummary.id)}
+            disabled={isGenerating}
+            className="hover:text-red-400 p-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Remove summary"
+            title="Remove summary (send the original messages again)"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      <div className="text-sm text-theme-primary">{renderMarkdown(contextSummary.content)}</div>
+    </div>
+  );
+
   return (
     <div
       className="flex-1 overflow-y-auto p-2 sm:p-4 space-y-3 sm:space-y-4 bg-theme"
@@ -48,67 +162,221 @@ export const MessageList: React.FC<MessageListProps> = ({ messages, isGenerating
         </div>
       )}
 
-      {messages.map((message, index) => (
-        <div
-          key={index}
-          className={`flex gap-2 sm:gap-3 ${
-            message.role === 'user' ? 'flex-row-reverse' : 'flex-row'
-          } animate-fade-in`}
-          role="article"
-          aria-label={`${message.role === 'user' ? 'Your message' : 'AI response'}`}
-        >
-          <div
-            className={`flex-shrink-0 w-7 h-7 sm:w-8 sm:h-8 rounded-full flex items-center justify-center ${
-              message.role === 'user' ? 'bg-primary' : 'glass'
-            }`}
-          >
-            {message.role === 'user' ? (
-              <User className="h-3 w-3 sm:h-4 sm:w-4 text-white" />
-            ) : (
-              <Bot className="h-3 w-3 sm:h-4 sm:w-4 text-accent" />
-            )}
-          </div>
+      {messages.map((message, index) => {
+        // Other messages written in the same place on a different branch
+        const siblings = tree ? getSiblings(tree, message) : [];
+        const siblingIndex = siblings.findIndex(m => m.id === message.id);
 
-          <div
-            className={`flex-1 max-w-[85%] sm:max-w-[70%] ${
-              message.role === 'user' ? 'text-right' : 'text-left'
-            }`}
-          >
+        // Messages replaced by the summary are hidden unless expanded, and the
+        // summary card sits right after the last of them
+        const isSummarized = index < summarizedCount;
+        const summaryCard = index === summarizedCount - 1 ? renderSummaryCard() : null;
+        if (isSummarized && !showSummarized) {
+          return <React.Fragment key={message.id}>{summaryCard}</React.Fragment>;
+        }
+
+        return (
+          <React.Fragment key={message.id}>
             <div
-              className={`inline-block p-3 sm:p-4 rounded-2xl message-content ${
-                message.role === 'user'
-                  ? 'bg-primary text-white'
-                  : 'glass text-theme-primary'
-              }`}
+              className={`flex gap-2 sm:gap-3 ${
+                message.role === 'user' ? 'flex-row-reverse' : 'flex-row'
+              } ${isSummarized ? 'opacity-60' : ''} animate-fade-in`}
+              role="article"
+              aria-label={`${message.role === 'user' ? 'Your message' : 'AI response'}`}
             >
-              {message.role === 'user' ? (
-                <p className="whitespace-pre-wrap text-sm sm:text-base">{message.content}</p>
-              ) : (
-                <div className="text-sm sm:text-base message-content">
-                  {renderMarkdown(message.content)}
-                </div>
-              )}
-            </div>
+              <div
+                className={`flex-shrink-0 w-7 h-7 sm:w-8 sm:h-8 rounded-full flex items-center justify-center ${
+                  message.role === 'user' ? 'bg-primary' : 'glass'
+                }`}
+              >
+                {message.role === 'user' ? (
+                  <User className="h-3 w-3 sm:h-4 sm:w-4 text-white" />
+                ) : (
+                  <Bot className="h-3 w-3 sm:h-4 sm:w-4 text-accent" />
+                )}
+              </div>
 
-            <div className={`mt-1 sm:mt-2 flex items-center gap-2 text-xs text-theme-muted ${
-              message.role === 'user' ? 'justify-end' : 'justify-start'
-            }`}>
-              <span>{new Date(message.timestamp).toLocaleTimeString()}</span>
-              <button
-                onClick={() => copyToClipboard(message.content, index)}
-                className="hover:text-theme-secondary transition-colors p-1"
-                aria-label="Copy message"
+              <div
+                className={`flex-1 max-w-[85%] sm:max-w-[70%] ${
+                  message.role === 'user' ? 'text-right' : 'text-left'
+                }`}
               >
-                {copiedIndex === index ? (
-                  <Check className="h-3 w-3" />
+                {editingIndex === index ? (
+                  <div className="glass rounded-2xl p-3 text-left">
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          submitEdit();
+                        } else if (e.key === 'Escape') {
+                          setEditingIndex(null);
+                        }
+                      }}
+                      autoFocus
+                      maxLength={4000}
+                      rows={3}
+                      aria-label="Edit message"
+                      className="w-full glass rounded-lg px-3 py-2 text-sm sm:text-base text-theme-primary focus:outline-none focus:ring-2 focus:ring-primary resize-y"
+                    />
+                    <div className="mt-2 flex justify-end gap-2 text-xs">
+                      <button
+                        onClick={() => setEditingIndex(null)}
+                        className="glass px-3 py-1.5 rounded-lg glass-hover text-theme-primary"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={submitEdit}
+                        disabled={!editText.trim()}
+                        className="gradient-primary px-3 py-1.5 rounded-lg text-white disabled:opacity-50"
+                      >
+                        Save & regenerate
+                      </button>
+                    </div>
+                    <p className="mt-2 text-xs text-theme-muted">Creates a new branch; the original stays available.</p>
+                  </div>
                 ) : (
-                  <Copy className="h-3 w-3" />
+                  <div
+                    className={`inline-block p-3 sm:p-4 rounded-2xl message-content ${
+                      message.role === 'user'
+                        ? 'bg-primary text-white'
+                        : 'glass text-theme-primary'
+                    }`}
+                  >
+                    {message.role === 'user' ? (
+                      <p className="whitespace-pre-wrap text-sm sm:text-base">{message.content}</p>
+                    ) : (
+                      <div className="text-sm sm:text-base message-content">
+                        {renderReasoning(message)}
+                        {renderMarkdown(message.content)}
+                      </div>
+                    )}
+                  </div>
                 )}
-              </button>
+
+                <div className={`mt-1 sm:mt-2 flex items-center gap-2 text-xs text-theme-muted ${
+                  message.role === 'user' ? 'justify-end' : 'justify-start'
+                }`}>
+                  <span>{new Date(message.timestamp).toLocaleTimeString()}</span>
+                  {message.role === 'assistant' && message.stats && (
+                    <span
+                      className={`font-mono ${message.stats.finishReason === 'length' ? 'text-yellow-400' : ''}`}
+                      aria-label="Response stats"
+                    >
+                      {formatGenerationStats(message.stats)}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => copyToClipboard(message.content, message.id)}
+                    className="hover:text-theme-secondary transition-colors p-1"
+                    aria-label="Copy message"
+                  >
+                    {copiedId === message.id ? (
+                      <Check className="h-3 w-3" />
+                    ) : (
+                      <Copy className="h-3 w-3" />
+                    )}
+                  </button>
+                  {message.role === 'user' && onEditMessage && editingIndex !== index && (
+                    <button
+                      onClick={() => startEditing(index, message.content)}
+                      disabled={isGenerating}
+                      className="hover:text-theme-secondary transition-colors p-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label="Edit message"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                  )}
+                  {message.role === 'assistant' && onRegenerate && message.id === lastAssistantId && (
+                    <button
+                      onClick={() => onRegenerate(message.id)}
+                      disabled={isGenerating}
+                      className="hover:text-theme-secondary transition-colors p-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label="Regenerate response"
+                    >
+                      <RefreshCw className="h-3 w-3" />
+                    </button>
+                  )}
+                  {message.role === 'assistant' && onContinue && message.stats?.finishReason === 'length' &&
+                    index === messages.length - 1 && (
+                    <button
+                      onClick={() => onContinue(message.id)}
+                      disabled={isGenerating}
+                      className="flex items-center gap-0.5 text-yellow-400 hover:text-yellow-300 transition-colors p-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label="Continue generating"
+                      title="The reply hit the token limit; continue it"
+                    >
+                      <ChevronsRight className="h-3 w-3" />
+                      Continue
+                    </button>
+                  )}
+                  {message.variants && message.variants.length > 1 && (
+                    <span className="flex items-center" aria-label="Response variants">
+                      <button
+                        onClick={() => onSelectVariant?.(message.id, (message.activeVariant ?? 0) - 1)}
+                        disabled={isGenerating || (message.activeVariant ?? 0) === 0}
+                        className="hover:text-theme-secondary transition-colors p-1 disabled:opacity-30 disabled:cursor-not-allowed"
+                        aria-label="Previous variant"
+                      >
+                        <ChevronLeft className="h-3 w-3" />
+                      </button>
+                      <span className="font-mono">
+                        {(message.activeVariant ?? 0) + 1}/{message.variants.length}
+                      </span>
+                      <button
+                        onClick={() => onSelectVariant?.(message.id, (message.activeVariant ?? 0) + 1)}
+                        disabled={isGenerating || (message.activeVariant ?? 0) >= message.variants.length - 1}
+                        className="hover:text-theme-secondary transition-colors p-1 disabled:opacity-30 disabled:cursor-not-allowed"
+                        aria-label="Next variant"
+                      >
+                        <ChevronRight className="h-3 w-3" />
+                      </button>
+                    </span>
+                  )}
+                  {siblings.length > 1 && onSwitchBranch && (
+                    <span className="flex items-center" aria-label="Branches">
+                      <button
+                        onClick={() => onSwitchBranch(siblings[siblingIndex - 1].id)}
+                        disabled={isGenerating || siblingIndex === 0}
+                        className="hover:text-theme-secondary transition-colors p-1 disabled:opacity-30 disabled:cursor-not-allowed"
+                        aria-label="Previous branch"
+                      >
+                        <ChevronLeft className="h-3 w-3" />
+                      </button>
+                      <GitBranch className="h-3 w-3" aria-hidden="true" />
+                      <span className="font-mono ml-0.5">
+                        {siblingIndex + 1}/{siblings.length}
+                      </span>
+                      <button
+                        onClick={() => onSwitchBranch(siblings[siblingIndex + 1].id)}
+                        disabled={isGenerating || siblingIndex >= siblings.length - 1}
+                        className="hover:text-theme-secondary transition-colors p-1 disabled:opacity-30 disabled:cursor-not-allowed"
+                        aria-label="Next branch"
+                      >
+                        <ChevronRight className="h-3 w-3" />
+                      </button>
+                    </span>
+                  )}
+                  {onFork && index < messages.length - 1 && (
+                    <button
+                      onClick={() => onFork(message.id)}
+                      disabled={isGenerating}
+                      className="hover:text-theme-secondary transition-colors p-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-label="Branch from here"
+                      title="Branch from here"
+                    >
+                      <GitBranch className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
-      ))}
+            {summaryCard}
+          </React.Fragment>
+        );
+      })}
 
       {isGenerating && (
         <div className="flex gap-2 sm:gap-3 animate-pulse" aria-live="polite" aria-label="AI is thinking">
@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { HardDrive, Trash2, ShieldCheck, Loader2, CheckCircle2, AlertTriangle, Lock } from 'lucide-react';
+import {
+  listCachedModels,
+  verifyCachedModel,
+  deleteCachedModel,
+  getStorageStatus,
+  requestPersistentStorage
+} from '../lib/model-cache';
+import type { CachedModel, CacheVerification, StorageStatus } from '../lib/model-cache';
+import { formatBytes } from '../lib/download-progress';
+import { useChatStore } from '../store/chat-store';
+import { OfflineModelSources } from './OfflineModelSources';
+
+interface ModelCacheManagerProps {
+  onBack: () => void;
+}
+
+const formatLastUsed = (date: Date | null): string => {
+  if (!date) return 'Never recorded';
+  const days = Math.floor((Date.now() - date.getTime()) / 86_400_000);
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  return days < 30 ? `${days} days ago` : date.toLocaleDateString();
+};
+
+// Storage page: cached models with size, last use, verify and delete
+export const ModelCacheManager: React.FC<ModelCacheManagerProps> = ({ onBack }) => {
+  const selectedModel = useChatStore(state => state.selectedModel);
+  const [models, setModels] = useState<CachedModel[] | null>(null);
+  const [storage, setStorage] = useState<StorageStatus | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [verifications, setVerifications] = useState<Record<string, CacheVerification>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [cached, status] = await Promise.all([listCachedModels(), getStorageStatus()]);
+      setModels(cached);
+      setStorage(status);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read the model cache');
+      setModels([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleVerify = async (modelId: string) => {
+    setBusyId(modelId);
+    try {
+      const result = await verifyCachedModel(modelId);
+      setVerifications(prev => ({ ...prev, [modelId]: result }));
+      // Files that failed their digest were deleted
+      if (result.tampered.length > 0) await refresh();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (cached: CachedModel) => {
+    if (!confirm(`Delete ${cached.model.name} (${formatBytes(cached.bytes)}) from this browser? It will be downloaded again next time you use it.`)) {
+      return;
+    }
+    setBusyId(cached.modelId);
+    try {
+      await deleteCachedModel(cached.modelId);
+      setVerifications(prev => {
+        const next = { ...prev };
+        delete next[cached.modelId];
+        return next;
+      });
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not delete the model');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePersist = async () => {
+    const granted = await requestPersistentStorage();
+    if (!granted) {
+      setError('The browser declined persistent storage. Bookmarking or installing the app can help.');
+    }
+    setStorage(await getStorageStatus());
+  };
+
+  const totalBytes = models?.reduce((sum, m) => sum + m.bytes, 0) ?? 0;
+  const usagePercent = storage?.usage != null && storage.quota
+    ? Math.min(100, Math.round((storage.usage / storage.quota) * 100))
+    : null;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 sm:p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <button onClick={onBack} className="glass p-2 rounded-lg glass-hover">
+          Back
+        </button>
+        <HardDrive className="h-5 w-5 text-accent" aria-hidden="true" />
+        <h2 className="text-xl sm:text-2xl font-bold text-theme-primary">Model Storage</h2>
+      </div>
+
+      {/* Overall quota */}
+      <div className="glass rounded-xl p-4 sm:p-5 mb-6">
+        <div className="flex items-center justify-between text-sm mb-2">
+          <span className="text-theme-secondary">
+            Models: <span className="text-theme-primary font-medium">{formatBytes(totalBytes)}</span>
+          </span>
+          {storage?.usage != null && storage.quota != null && (
+            <span className="text-theme-muted text-xs">
+              {formatBytes(storage.usage)} of {formatBytes(storage.quota)} used by this site
+            </span>
+          )}
+        </div>
+        {usagePercent !== null && (
+          <div className="w-full bg-black/30 dark:bg-gray-700/50 rounded-full h-2 overflow-hidden">
+            <div
+              className={`h-full ${usagePercent > 90 ? 'bg-red-500' : 'gradient-primary'}`}
+              style={{ width: `${usagePercent}%` }}
+            />
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-3 mt-3 text-xs">
+          <span className="flex items-center gap-1 text-theme-muted">
+            <Lock className="h-3 w-3" aria-hidden="true" />
+            {storage?.persisted
+              ? 'Persistent: the browser will not evict models when space runs low'
+              : 'Best effort: the browser may evict models when space runs low'}
+          </span>
+          {storage?.persisted === false && (
+            <button onClick={handlePersist} className="underline text-theme-secondary hover:text-theme-primary flex-shrink-0">
+              Keep models
+            </button>
+          )}
+        </div>
+      </div>
+
+      <OfflineModelSources onImported={refresh} />
+
+      {error && (
+        <p className="text-xs text-red-400 mb-4" role="alert">{error}</p>
+      )}
+
+      {models === null ? (
+        <div className="flex items-center justify-center gap-2 text-theme-secondary py-12">
+          <Loader2 className="h-5 w-5 animate-spin" aria-hidden="true" />
+          Reading cache…
+        </div>
+      ) : models.length === 0 ? (
+        <p className="text-center text-theme-muted py-12">No models are stored in this browser.</p>
+      ) : (
+        <ul className="space-y-3">
+          {models.map(cached => {
+            const verification = verifications[cached.modelId];
+            const isBusy = busyId === cached.modelId;
+            return (
+              <li key={cached.modelId} className="glass rounded-xl p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-medium text-theme-primary truncate">{cached.model.name}</h3>
+                    {cached.quantization && (cached.model.quantizations?.length ?? 0) > 1 && (
+                      <span className="px-2 py-0.5 rounded-md text-xs bg-white/10 text-theme-secondary font-mono">{cached.quantization}</span>
+                    )}
+                    {selectedModel?.id === cached.model.id && (
+                      <span className="px-2 py-0.5 rounded-md text-xs bg-primary/20 text-primary">In use</span>
+                    )}
+                    {!cached.complete && (
+                      <span className="px-2 py-0.5 rounded-md text-xs bg-yellow-500/20 text-yellow-400">Partial download</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-theme-muted mt-1">
+                    {formatBytes(cached.bytes)} · {cached.files} files · Last used: {formatLastUsed(cached.lastUsed)}
+                  </p>
+                  {verification && (
+                    <p className={`text-xs mt-1 flex items-center gap-1 ${verification.ok ? 'text-green-400' : 'text-red-400'}`}>
+                      {verification.ok ? (
+                        <><CheckCircle2 className="h-3 w-3" aria-hidden="true" /> All {verification.checkedFiles} files present and intact{cached.model.sha256 && ', pinned SHA-256 digests match'}</>
+                      ) : (
+                        <>
+                          <AlertTriangle className="h-3 w-3" aria-hidden="true" />
+                          {verification.tampered.length > 0
+                            ? `${verification.tampered.length} failed SHA-256 verification and were deleted. Load the model to download them again.`
+                            : verification.missing.length === 0 && verification.damaged.length === 0 && verification.unpinned
+                              ? 'No SHA-256 digests are pinned for this build, so it will not load.'
+                              : `${verification.missing.length} missing, ${verification.damaged.length} damaged. Delete and download again to repair.`}
+                        </>
+                      )}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleVerify(cached.modelId)}
+                    disabled={busyId !== null}
+                    className="glass px-3 py-1.5 rounded-md text-xs text-theme-primary hover:bg-primary/20 transition-colors disabled:opacity-50 flex items-center gap-1"
+                  >
+                    {isBusy ? <Loader2 className="h-3 w-3 animate-spin" aria-hidden="true" /> : <ShieldCheck className="h-3 w-3" aria-hidden="true" />}
+                    Verify
+                  </button>
+                  <button
+                    onClick={() => handleDelete(cached)}
+                    disabled={busyId !== null}
+                    className="glass px-3 py-1.5 rounded-md text-xs text-red-400 hover:bg-red-500/20 transition-colors disabled:opacity-50 flex items-center gap-1"
+                    aria-label={`Delete ${cached.model.name}`}
+                  >
+                    <Trash2 className="h-3 w-3" aria-hidden="true" />
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,17 @@
 import React, { useEffect, useState } from 'react';
-import { Cpu, Zap, AlertCircle, Check, Loader2, Smartphone, Moon, Sun } from 'lucide-react';
-import { getModelsByCategory, isModelCompatible } from '../lib/model-config';
+import { Cpu, Zap, AlertCircle, Check, Loader2, Smartphone, Moon, Sun, PauseCircle, HardDrive, Layers, Gauge, Stethoscope } from 'lucide-react';
+import { getCatalogModels, getModelsByCategory, getModelVariants, getVramRequiredMB, isModelCompatible, selectModelVariant } from '../lib/model-config';
 import type { ModelConfig } from '../lib/model-config';
-import { detectHardware } from '../lib/hardware-detect';
-import type { HardwareInfo } from '../lib/hardware-detect';
+import { applyHardwareOverride, detectHardware, getDeviceResources } from '../lib/hardware-detect';
+import type { DetectionConfidence, HardwareInfo } from '../lib/hardware-detect';
+import { BENCHMARK_MODEL, rankModelsForDevice } from '../lib/benchmark';
+import type { SpeedRating } from '../lib/benchmark';
+import { isInferenceError } from '../lib/inference-errors';
 import { useChatStore } from '../store/chat-store';
+import { LocalServerConnect } from './LocalServerConnect';
+import { CustomModelForm } from './CustomModelForm';
+import { HardwareOverrideSettings } from './HardwareOverrideSettings';
+import { formatBytes, formatDuration } from '../lib/download-progress';
 
 interface ModelSelectorProps {
   onModelSelect: (model: ModelConfig) => void;
@@ -12,39 +19,92 @@ interface ModelSelectorProps {
   loadingProgress: number;
   loadingStatus: string;
   onBack?: () => void;
+  /** Local OpenAI-compatible server support (see LocalServerConnect) */
+  onListServerModels?: (baseUrl: string) => Promise<string[]>;
+  onServerConnect?: (baseUrl: string, model: string, contextWindow: number) => Promise<void>;
+  /** Aborts the model load in progress (downloaded files are kept) */
+  onCancelLoad?: () => void;
+  /** Opens the cached-model storage page */
+  onManageStorage?: () => void;
+  /** Opens the diagnostics report page */
+  onOpenDiagnostics?: () => void;
+  /** Runs the opt-in speed test (see lib/benchmark); rejects with a user-facing error */
+  onRunBenchmark?: () => Promise<void>;
 }
 
+// Shown next to predicted speeds
+const RATING_STYLES: Record<SpeedRating, string> = {
+  fast: 'text-green-400',
+  usable: 'text-theme-secondary',
+  slow: 'text-yellow-500'
+};
+
+const CONFIDENCE_LABELS: Record<DetectionConfidence, string> = {
+  high: 'set by you',
+  medium: 'reported by the browser',
+  low: 'estimate'
+};
+
+// Number of models in the "best fit" list
+const RANKED_LIST_LENGTH = 5;
+
 export const ModelSelector: React.FC<ModelSelectorProps> = ({
   onModelSelect,
   isLoading,
   loadingProgress,
   loadingStatus,
-  onBack
+  onBack,
+  onListServerModels,
+  onServerConnect,
+  onCancelLoad,
+  onManageStorage,
+  onOpenDiagnostics,
+  onRunBenchmark
 }) => {
-  const [hardware, setHardware] = useState<HardwareInfo | null>(null);
+  const [detected, setDetected] = useState<HardwareInfo | null>(null);
   const [detecting, setDetecting] = useState(true);
+  const [showOverride, setShowOverride] = useState(false);
+  const [benchmarking, setBenchmarking] = useState(false);
+  const [benchmarkError, setBenchmarkError] = useState<string | null>(null);
   const selectedModel = useChatStore(state => state.selectedModel);
+  const benchmark = useChatStore(state => state.benchmark);
+  const modelDownload = useChatStore(state => state.modelDownload);
   const { isDarkMode, toggleDarkMode } = useChatStore();
+  const hardwareOverride = useChatStore(state => state.hardwareOverride);
+  // Re-render when models are registered (the catalog lookups read model-config's registry)
+  useChatStore(state => state.customModels);
 
   useEffect(() => {
     detectHardware().then(hw => {
-      setHardware(hw);
+      setDetected(hw);
       setDetecting(false);
     });
   }, []);
 
-  const getModelStatus = (model: ModelConfig) => {
-    if (!hardware) return 'checking';
-
-    // Check if model is compatible with device (considers mobile limits)
-    const isMobile = hardware.deviceInfo.type === 'mobile' || hardware.deviceInfo.type === 'tablet';
-    const isCompatible = isModelCompatible(model, hardware.memory, isMobile);
+  // What the user entered wins over what the browser reports
+  const hardware = detected && applyHardwareOverride(detected, hardwareOverride);
+  const device = hardware && getDeviceResources(hardware);
 
-    if (!isCompatible) {
-      return 'insufficient';
+  const handleRunBenchmark = async () => {
+    if (!onRunBenchmark) return;
+    setBenchmarking(true);
+    setBenchmarkError(null);
+    try {
+      await onRunBenchmark();
+    } catch (e) {
+      if (!(isInferenceError(e) && e.code === 'CANCELLED')) {
+        setBenchmarkError(e instanceof Error ? e.message : 'The speed test failed');
+      }
+    } finally {
+      setBenchmarking(false);
     }
+  };
+
+  const getHardwareStatus = (model: ModelConfig) => {
+    if (!hardware || !device) return 'checking';
 
-    if (hardware.memory < model.requirements.ram) {
+    // RAM, GPU memory, buffer limits and shader support (considers mobile limits)
+    if (!isModelCompatible(model, device)) {
       return 'insufficient';
     }
 
@@ -58,7 +118,25 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
       }
     }
 
-    if (model.category === hardware.recommendedModel) {
+    return 'compatible';
+  };
+
+  // Measured speed ranks the models this device can load
+  const rankedModels = benchmark
+    ? rankModelsForDevice(getCatalogModels().filter(model => getHardwareStatus(model) === 'compatible'), benchmark)
+    : [];
+  const predictedSpeed = new Map(rankedModels.map(estimate => [estimate.model.id, estimate]));
+  const usableModels = rankedModels.filter(estimate => estimate.rating !== 'slow');
+  // Without any usable model, the fastest one is the best there is
+  const recommendedIds = new Set((usableModels.length > 0 ? usableModels.slice(0, 3) : rankedModels.slice(0, 1))
+    .map(estimate => estimate.model.id));
+
+  const getModelStatus = (model: ModelConfig) => {
+    const status = getHardwareStatus(model);
+    if (status !== 'compatible') return status;
+
+    // A measurement beats the tier guessed from reported memory
+    if (benchmark ? recommendedIds.has(model.id) : model.category === hardware?.recommendedModel) {
       return 'recommended';
     }
 
@@ -115,17 +193,41 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
               />
             </div>
           </div>
-          <button
-            onClick={toggleDarkMode}
-            className="glass p-2 rounded-lg glass-hover"
-            aria-label={isDarkMode ? 'Switch to light mode' : 'Switch to dark mode'}
-          >
-            {isDarkMode ? (
-              <Sun className="h-5 w-5 text-theme-secondary" />
-            ) : (
-              <Moon className="h-5 w-5 text-theme-secondary" />
+          <div className="flex items-center gap-2">
+            {onManageStorage && (
+              <button
+                onClick={onManageStorage}
+                disabled={isLoading}
+                className="glass p-2 rounded-lg glass-hover disabled:opacity-50"
+                aria-label="Manage downloaded models"
+                title="Manage downloaded models"
+              >
+                <HardDrive className="h-5 w-5 text-theme-secondary" />
+              </button>
             )}
-          </button>
+            {onOpenDiagnostics && (
+              <button
+                onClick={onOpenDiagnostics}
+                disabled={isLoading}
+                className="glass p-2 rounded-lg glass-hover disabled:opacity-50"
+                aria-label="Diagnostics"
+                title="Diagnostics"
+              >
+                <Stethoscope className="h-5 w-5 text-theme-secondary" />
+              </button>
+            )}
+            <button
+              onClick={toggleDarkMode}
+              className="glass p-2 rounded-lg glass-hover"
+              aria-label={isDarkMode ? 'Switch to light mode' : 'Switch to dark mode'}
+            >
+              {isDarkMode ? (
+                <Sun className="h-5 w-5 text-theme-secondary" />
+              ) : (
+                <Moon className="h-5 w-5 text-theme-secondary" />
+              )}
+            </button>
+          </div>
         </div>
       </div>
       <div className="text-center mb-6 sm:mb-8">
@@ -166,14 +268,30 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
               </div>
               <div className="flex items-center gap-2">
                 <span className="text-theme-muted">System RAM:</span>
-                <span className="text-theme-secondary">{hardware.memory}GB</span>
+                <span className="text-theme-secondary">
+                  {hardware.memory}GB <span className="text-theme-muted">({CONFIDENCE_LABELS[hardware.memoryConfidence]})</span>
+                </span>
               </div>
               {hardware.gpuInfo && (
                 <div className="flex items-center gap-2">
                   <span className="text-theme-muted">GPU:</span>
+                  <span className="text-theme-secondary truncate">{hardware.gpuInfo.name}</span>
+                </div>
+              )}
+              {hardware.gpuInfo?.vram !== undefined && (
+                <div className="flex items-center gap-2">
+                  <span className="text-theme-muted">GPU memory:</span>
                   <span className="text-theme-secondary">
-                    {hardware.gpuInfo.name}
-                    {hardware.gpuInfo.vram && ` (${hardware.gpuInfo.vram}GB VRAM)`}
+                    {hardware.gpuInfo.vramConfidence === 'low' && 'at least '}{hardware.gpuInfo.vram}GB
+                    {' '}<span className="text-theme-muted">({CONFIDENCE_LABELS[hardware.gpuInfo.vramConfidence]})</span>
+                  </span>
+                </div>
+              )}
+              {hardware.gpuInfo && (
+                <div className="flex items-center gap-2">
+                  <span className="text-theme-muted">Largest buffer:</span>
+                  <span className="text-theme-secondary">
+                    {formatBytes(hardware.gpuInfo.maxBufferSize)} · binding {formatBytes(hardware.gpuInfo.maxStorageBufferBindingSize)}
                   </span>
                 </div>
               )}
@@ -187,18 +305,129 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
                       : 'CPU Only'}
                 </span>
               </div>
+              {hardware.hasWebGPU && (
+                <div className="flex items-center gap-2">
+                  <span className="text-theme-muted">16-bit shaders:</span>
+                  <span className="text-theme-secondary">
+                    {hardware.supportsShaderF16 ? 'Supported' : 'Not supported (q4f32 builds are used)'}
+                  </span>
+                </div>
+              )}
             </div>
             
             {hardware.deviceType === 'desktop' && hardware.gpuInfo?.isHighPerformance && (
               <div className="mt-2 text-xs text-green-400 flex items-center gap-1">
                 <Zap className="h-3 w-3" />
-                High-performance GPU detected
+                GPU limits fit full-size models
+              </div>
+            )}
+            {hardware.gpuInfo && !hardware.gpuInfo.isHighPerformance && (
+              <div className="mt-2 text-xs text-yellow-500 flex items-center gap-1">
+                <AlertCircle className="h-3 w-3" />
+                GPU buffers are limited to {formatBytes(hardware.gpuInfo.maxStorageBufferBindingSize)}: only low-resource models will load
               </div>
             )}
+            {hardware.gpuInfo?.vramConfidence === 'low' && (
+              <p className="text-xs text-theme-muted">
+                Browsers do not report GPU memory, so the figure above is the GPU's largest buffer. It only tells
+                which models may not fit and hides none of them; enter your GPU memory to have models checked against it.
+              </p>
+            )}
+
+            <div>
+              <button
+                onClick={() => setShowOverride(!showOverride)}
+                className="text-xs text-theme-secondary hover:text-theme-primary underline"
+                aria-expanded={showOverride}
+              >
+                {hardware.isOverridden ? 'Edit the memory you entered' : 'Not right? Enter your memory'}
+              </button>
+              {showOverride && detected && (
+                <div className="mt-3">
+                  <HardwareOverrideSettings detectedMemoryGB={detected.memory} detectedVramGB={detected.gpuInfo?.vram} />
+                </div>
+              )}
+            </div>
           </div>
         </div>
       )}
 
+      {/* Speed test and the ranking it drives */}
+      {hardware && onRunBenchmark && (
+        <div className="glass rounded-xl p-4 sm:p-5 mb-6 sm:mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <Gauge className="h-4 w-4 sm:h-5 sm:w-5 text-accent flex-shrink-0" />
+            <h3 className="text-sm sm:text-base font-medium text-theme-primary flex-1">Speed on this device</h3>
+            <button
+              onClick={handleRunBenchmark}
+              disabled={isLoading}
+              className="glass px-3 py-1.5 rounded-md text-xs sm:text-sm text-theme-primary hover:bg-primary/20 transition-colors disabled:opacity-50 flex items-center gap-1 flex-shrink-0"
+            >
+              {benchmarking && <Loader2 className="h-3 w-3 animate-spin" aria-hidden="true" />}
+              {benchmark ? 'Measure again' : 'Measure speed'}
+            </button>
+          </div>
+
+          {benchmarking ? (
+            <div className="flex items-center gap-3 text-xs text-theme-muted">
+              <span className="flex-1 truncate animate-pulse">{loadingStatus || 'Preparing...'}</span>
+              <span className="font-mono text-primary">{Math.round(loadingProgress)}%</span>
+              {onCancelLoad && loadingProgress < 100 && (
+                <button onClick={onCancelLoad} className="underline hover:text-theme-primary">Cancel</button>
+              )}
+            </div>
+          ) : benchmark ? (
+            <p className="text-xs text-theme-muted">
+              Replies at <span className="text-theme-secondary font-mono">{benchmark.decodeTokensPerSecond.toFixed(1)} tok/s</span>
+              {' '}and reads prompts at <span className="text-theme-secondary font-mono">{Math.round(benchmark.prefillTokensPerSecond)} tok/s</span>
+              {' '}with {BENCHMARK_MODEL.name}
+              {benchmark.peakJsHeapMB != null && <>, page JS heap peaked at {formatBytes(benchmark.peakJsHeapMB * 1024 * 1024)} (model and GPU memory not included)</>}
+              {' '}· measured {new Date(benchmark.measuredAt).toLocaleDateString()}
+            </p>
+          ) : (
+            <p className="text-xs text-theme-muted">
+              Loads {BENCHMARK_MODEL.name} ({BENCHMARK_MODEL.size}, downloaded once) and times a short reply, so recommendations match what this device actually manages instead of a guess from its specs.
+            </p>
+          )}
+          {benchmarkError && <p className="text-xs text-red-400 mt-2" role="alert">{benchmarkError}</p>}
+
+          {rankedModels.length > 0 && !benchmarking && (
+            <div className="mt-4">
+              <p className="text-xs font-medium text-theme-secondary mb-2">Best fit for this device</p>
+              <ol className="space-y-1">
+                {rankedModels.slice(0, RANKED_LIST_LENGTH).map((estimate, index) => (
+                  <li key={estimate.model.id}>
+                    <button
+                      onClick={() => onModelSelect(estimate.model)}
+                      disabled={isLoading}
+                      className="w-full flex items-center gap-3 rounded-md px-2 py-1.5 text-left text-sm hover:bg-white/10 transition-colors disabled:opacity-50"
+                    >
+                      <span className="text-xs text-theme-muted w-4">{index + 1}.</span>
+                      <span className="flex-1 truncate text-theme-primary">{estimate.model.name}</span>
+                      <span className="text-xs text-theme-muted">{estimate.model.size}</span>
+                      <span className={`text-xs font-mono w-20 text-right ${RATING_STYLES[estimate.rating]}`}>
+                        ~{Math.round(estimate.tokensPerSecond)} tok/s
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+              <p className="text-xs text-theme-muted mt-2">Predicted from the measurement; larger models reply more slowly in proportion to their size.</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {onListServerModels && onServerConnect && (
+        <LocalServerConnect
+          onListModels={onListServerModels}
+          onConnect={onServerConnect}
+          disabled={isLoading}
+        />
+      )}
+
+      <CustomModelForm disabled={isLoading} />
+
       {/* Model Cards - Organized by Category */}
       <div className="space-y-8">
         {['tiny', 'small', 'medium', 'large', 'xl', 'coding'].map(category => {
@@ -209,7 +438,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
           const isMobile = hardware?.deviceInfo.type === 'mobile' || hardware?.deviceInfo.type === 'tablet';
           const hasCompatibleModels = categoryModels.some(model => {
             if (!hardware) return true;
-            return isModelCompatible(model, hardware.memory, isMobile);
+            return isModelCompatible(model, getDeviceResources(hardware));
           });
 
           if (isMobile && !hasCompatibleModels) return null;
@@ -231,6 +460,13 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
                 {categoryModels.map((model, idx) => {
                   const status = getModelStatus(model);
+                  const speed = predictedSpeed.get(model.id);
+                  const vramNeededMB = getVramRequiredMB(model, hardware?.supportsShaderF16 ?? true);
+                  // Detected GPU memory is only a lower bound, so this is a warning rather than a block
+                  const mayNotFit = vramNeededMB !== null && hardware?.gpuInfo?.vram !== undefined &&
+                    hardware.gpuInfo.vramConfidence === 'low' && vramNeededMB > hardware.gpuInfo.vram * 1024;
+                  // The build initializeModel will load on this GPU
+                  const variant = hardware ? selectModelVariant(model, hardware.supportsShaderF16) : getModelVariants(model)[0];
                   const isSelected = selectedModel?.id === model.id;
                   const isDisabled = status === 'insufficient' || isLoading;
 
@@ -239,86 +475,147 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
                   if (isMobile && status === 'insufficient') return null;
 
                   return (
-                    <button
-                      key={`${category}-${idx}`}
-                      onClick={() => !isDisabled && onModelSelect(model)}
-                      disabled={isDisabled}
-                      className={`
-                        glass rounded-xl p-4 sm:p-5 text-left transition-all transform hover:scale-[1.02]
-                        ${getStatusColor(status)}
-                        ${isSelected ? 'ring-2 ring-primary' : ''}
-                        ${isDisabled ? '' : 'hover:bg-white/10'}
-                        w-full
-                      `}
-                    >
-                      <div className="flex items-start justify-between mb-3">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2">
-                            <h4 className="text-base sm:text-lg font-semibold text-theme-primary">{model.name}</h4>
-                            {/* Show mobile badge for compatible models on small screens */}
-                            {(model.category === 'tiny' || model.category === 'small') && hardware?.deviceInfo.type === 'mobile' && (
-                              <span title="Works great on mobile">
-                                <Smartphone className="h-3 w-3 text-green-400" />
-                              </span>
-                            )}
+                    <div key={`${category}-${idx}`} className="flex flex-col gap-2">
+                      <button
+                        onClick={() => !isDisabled && onModelSelect(model)}
+                        disabled={isDisabled}
+                        className={`
+                          glass rounded-xl p-4 sm:p-5 text-left transition-all transform hover:scale-[1.02]
+                          ${getStatusColor(status)}
+                          ${isSelected ? 'ring-2 ring-primary' : ''}
+                          ${isDisabled ? '' : 'hover:bg-white/10'}
+                          w-full
+                        `}
+                      >
+                        <div className="flex items-start justify-between mb-3">
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2">
+                              <h4 className="text-base sm:text-lg font-semibold text-theme-primary">{model.name}</h4>
+                              {model.source && (
+                                <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-accent/20 text-accent">Custom</span>
+                              )}
+                              {/* Show mobile badge for compatible models on small screens */}
+                              {(model.category === 'tiny' || model.category === 'small') && hardware?.deviceInfo.type === 'mobile' && (
+                                <span title="Works great on mobile">
+                                  <Smartphone className="h-3 w-3 text-green-400" />
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-xs text-theme-muted mt-1">{model.size}</p>
                           </div>
-                          <p className="text-xs text-theme-muted mt-1">{model.size}</p>
+                          {isSelected && <Check className="h-4 w-4 text-primary flex-shrink-0 ml-2" />}
                         </div>
-                        {isSelected && <Check className="h-4 w-4 text-primary flex-shrink-0 ml-2" />}
-                      </div>
 
-                      {getStatusBadge(status)}
+                        {getStatusBadge(status)}
 
-                      <p className="text-theme-secondary mt-3 text-xs sm:text-sm line-clamp-2">{model.description}</p>
+                        <p className="text-theme-secondary mt-3 text-xs sm:text-sm line-clamp-2">{model.description}</p>
 
-                      <div className="mt-3 space-y-1">
-                        <div className="flex items-center gap-2 text-xs text-theme-muted">
-                          <Zap className="h-3 w-3 flex-shrink-0" />
-                          <span>Min {model.requirements.ram}GB RAM</span>
-                        </div>
-                        <div className="flex items-center gap-2 text-xs text-theme-muted">
-                          <Cpu className="h-3 w-3 flex-shrink-0" />
-                          <span>GPU {model.requirements.gpu}</span>
+                        <div className="mt-3 space-y-1">
+                          <div className="flex items-center gap-2 text-xs text-theme-muted">
+                            <Zap className="h-3 w-3 flex-shrink-0" />
+                            <span>Min {model.requirements.ram}GB RAM</span>
+                          </div>
+                          <div className="flex items-center gap-2 text-xs text-theme-muted">
+                            <Cpu className="h-3 w-3 flex-shrink-0" />
+                            <span>GPU {model.requirements.gpu}</span>
+                          </div>
+                          {vramNeededMB !== null && (
+                            <div className={`flex items-center gap-2 text-xs ${mayNotFit ? 'text-yellow-500' : 'text-theme-muted'}`}>
+                              <HardDrive className="h-3 w-3 flex-shrink-0" />
+                              <span>
+                                ~{(vramNeededMB / 1024).toFixed(1)}GB GPU memory
+                                {mayNotFit && ' (more than confirmed for this GPU)'}
+                              </span>
+                            </div>
+                          )}
+                          {variant?.quantization && (
+                            <div className="flex items-center gap-2 text-xs text-theme-muted">
+                              <Layers className="h-3 w-3 flex-shrink-0" />
+                              <span>
+                                Build <span className="font-mono">{variant.quantization}</span>
+                                {variant.id !== model.id && ' (this GPU lacks shader-f16)'}
+                              </span>
+                            </div>
+                          )}
+                          {speed && (
+                            <div className={`flex items-center gap-2 text-xs ${RATING_STYLES[speed.rating]}`}>
+                              <Gauge className="h-3 w-3 flex-shrink-0" />
+                              <span>~{Math.round(speed.tokensPerSecond)} tok/s on this device{speed.rating === 'slow' && ' (slow)'}</span>
+                            </div>
+                          )}
+                          {hardware && !variant && (
+                            <div className="flex items-center gap-2 text-xs text-red-400">
+                              <Layers className="h-3 w-3 flex-shrink-0" />
+                              <span>Needs shader-f16, which this GPU lacks</span>
+                            </div>
+                          )}
                         </div>
-                      </div>
 
-                      {isSelected && isLoading && (
-                        <div className="mt-4">
-                          <div className="flex items-center justify-between text-xs text-theme-muted mb-2">
-                            <span className="truncate pr-2 animate-pulse">{loadingStatus}</span>
-                            <span className="font-mono flex-shrink-0 font-bold text-primary">{Math.round(loadingProgress)}%</span>
-                          </div>
-                          <div className="w-full bg-black/30 dark:bg-gray-700/50 rounded-full h-3 overflow-hidden shadow-inner">
-                            <div className="relative h-full">
-                              <div
-                                className="gradient-primary h-full transition-all duration-300 ease-out shadow-lg"
-                                style={{
-                                  width: `${loadingProgress}%`,
-                                  boxShadow: loadingProgress > 0 ? '0 0 10px rgba(99, 102, 241, 0.5)' : 'none'
-                                }}
-                              />
-                              {loadingProgress > 0 && loadingProgress < 100 && (
-                                <>
-                                  <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent animate-shimmer" />
-                                  <div className="absolute right-0 top-0 h-full w-2 bg-white/40 animate-pulse"
-                                       style={{ left: `${Math.max(0, loadingProgress - 2)}%` }} />
-                                </>
+                        {isSelected && isLoading && (
+                          <div className="mt-4">
+                            <div className="flex items-center justify-between text-xs text-theme-muted mb-2">
+                              <span className="truncate pr-2 animate-pulse">{loadingStatus}</span>
+                              <span className="font-mono flex-shrink-0 font-bold text-primary">{Math.round(loadingProgress)}%</span>
+                            </div>
+                            <div className="w-full bg-black/30 dark:bg-gray-700/50 rounded-full h-3 overflow-hidden shadow-inner">
+                              <div className="relative h-full">
+                                <div
+                                  className="gradient-primary h-full transition-all duration-300 ease-out shadow-lg"
+                                  style={{
+                                    width: `${loadingProgress}%`,
+                                    boxShadow: loadingProgress > 0 ? '0 0 10px rgba(99, 102, 241, 0.5)' : 'none'
+                                  }}
+                                />
+                                {loadingProgress > 0 && loadingProgress < 100 && (
+                                  <>
+                                    <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent animate-shimmer" />
+                                    <div className="absolute right-0 top-0 h-full w-2 bg-white/40 animate-pulse"
+                                         style={{ left: `${Math.max(0, loadingProgress - 2)}%` }} />
+                                  </>
+                                )}
+                              </div>
+                            </div>
+                            <div className="text-xs text-theme-muted mt-2 flex items-center gap-2">
+                              {loadingProgress < 100 && (
+                                <div className="w-2 h-2 bg-primary rounded-full animate-pulse" />
                               )}
+                              <span className="font-medium">
+                                {loadingProgress === 0 && 'Preparing to load...'}
+                                {loadingProgress > 0 && loadingProgress < 100 && loadingStatus}
+                                {loadingProgress >= 100 && '✓ Model ready!'}
+                              </span>
                             </div>
-                          </div>
-                          <div className="text-xs text-theme-muted mt-2 flex items-center gap-2">
-                            {loadingProgress < 100 && (
-                              <div className="w-2 h-2 bg-primary rounded-full animate-pulse" />
+                            {modelDownload && modelDownload.totalBytes > 0 && (
+                              <div className="text-xs text-theme-muted mt-2 space-y-0.5">
+                                <div className="flex flex-wrap justify-between gap-x-3 font-mono">
+                                  <span>{formatBytes(modelDownload.loadedBytes)} / {formatBytes(modelDownload.totalBytes)}</span>
+                                  {modelDownload.bytesPerSecond !== null && (
+                                    <span>{formatBytes(modelDownload.bytesPerSecond)}/s</span>
+                                  )}
+                                  {modelDownload.etaSeconds !== null && (
+                                    <span>{formatDuration(modelDownload.etaSeconds)} left</span>
+                                  )}
+                                </div>
+                                {modelDownload.resumedBytes > 0 && (
+                                  <p>Resumed: {formatBytes(modelDownload.resumedBytes)} was already downloaded</p>
+                                )}
+                              </div>
                             )}
-                            <span className="font-medium">
-                              {loadingProgress === 0 && 'Preparing to load...'}
-                              {loadingProgress > 0 && loadingProgress < 100 && loadingStatus}
-                              {loadingProgress >= 100 && '✓ Model ready!'}
-                            </span>
                           </div>
-                        </div>
+                        )}
+                      </button>
+
+                      {/* Outside the card: a disabled button swallows clicks on its children */}
+                      {isSelected && isLoading && onCancelLoad && loadingProgress < 100 && (
+                        <button
+                          onClick={onCancelLoad}
+                          className="self-end flex items-center gap-1 text-xs text-theme-secondary hover:text-theme-primary underline"
+                        >
+                          <PauseCircle className="h-3 w-3" aria-hidden="true" />
+                          Cancel download
+                        </button>
                       )}
-                    </button>
+                    </div>
                   );
                 })}
               </div>
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { FolderInput, Network, Loader2 } from 'lucide-react';
+import { useChatStore } from '../store/chat-store';
+import { getCatalogModels, getModelVariants } from '../lib/model-config';
+import { importModelFolder } from '../lib/model-cache';
+import type { FolderFile } from '../lib/model-cache';
+import { formatBytes } from '../lib/download-progress';
+
+interface OfflineModelSourcesProps {
+  /** Called after a folder was imported, to refresh the cached model list */
+  onImported: () => void;
+}
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+// Dropped folders only expose their tree through the (prefixed) entries API
+const collectFiles = async (entry: FileSystemEntry, prefix: string, out: FolderFile[]): Promise<void> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    out.push({ path: prefix + entry.name, file });
+  } else if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns at most 100 entries per call
+    let batch: FileSystemEntry[];
+    do {
+      batch = await readEntries(reader);
+      for (const child of batch) {
+        await collectFiles(child, `${prefix}${entry.name}/`, out);
+      }
+    } while (batch.length > 0);
+  }
+};
+
+// Air-gapped machines: download from a local mirror or import a model folder
+export const OfflineModelSources: React.FC<OfflineModelSourcesProps> = ({ onImported }) => {
+  const modelMirrorUrl = useChatStore(state => state.modelMirrorUrl);
+  const setModelMirrorUrl = useChatStore(state => state.setModelMirrorUrl);
+  const [mirror, setMirror] = useState(modelMirrorUrl);
+  const [mirrorError, setMirrorError] = useState<string | null>(null);
+  // Each quantized build is its own set of files
+  const builds = getCatalogModels().flatMap(model =>
+    getModelVariants(model).map(variant => ({
+      id: variant.id,
+      name: model.quantizations && model.quantizations.length > 1 ? `${model.name} (${variant.quantization})` : model.name
+    }))
+  );
+  const [modelId, setModelId] = useState(builds[0]?.id ?? '');
+  const [importing, setImporting] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const saveMirror = (url: string) => {
+    setMirrorError(null);
+    try {
+      setModelMirrorUrl(url);
+      // Show the normalized URL
+      setMirror(useChatStore.getState().modelMirrorUrl);
+    } catch (e) {
+      setMirrorError(e instanceof Error ? e.message : 'Invalid mirror URL');
+    }
+  };
+
+  const runImport = async (files: FolderFile[]) => {
+    if (files.length === 0) return;
+    // A folder named after a model (as cloned from Hugging Face) picks that model
+    const folderName = files[0].path.split('/')[0];
+    const target = builds.find(build => build.id === folderName) ?? builds.find(build => build.id === modelId);
+    if (!target) return;
+
+    setResult(null);
+    setImporting(`Checking files for ${target.name}…`);
+    try {
+      const imported = await importModelFolder(target.id, files, (written, total) => {
+        setImporting(`Copying ${written} of ${total} files…`);
+      });
+      setResult({
+        ok: true,
+        text: `Imported ${target.name} (${formatBytes(imported.bytes)}).` +
+          (imported.hasModelLib ? '' : ' The folder had no .wasm model library, so it will still be downloaded on first use.')
+      });
+      onImported();
+    } catch (e) {
+      setResult({ ok: false, text: e instanceof Error ? e.message : 'Import failed' });
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const handlePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).map(file => ({ path: file.webkitRelativePath || file.name, file }));
+    e.target.value = '';
+    runImport(files);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    const entries = Array.from(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+    const files: FolderFile[] = [];
+    for (const entry of entries) {
+      await collectFiles(entry, '', files);
+    }
+    runImport(files);
+  };
+
+  const inputClass = 'w-full glass rounded-md px-3 py-2 text-sm text-theme-primary placeholder-theme-muted focus:outline-none focus:ring-2 focus:ring-primary';
+
+  return (
+    <div className="glass rounded-xl p-4 sm:p-5 mb-6 space-y-5">
+      {/* Local mirror */}
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <Network className="h-4 w-4 text-accent" aria-hidden="true" />
+          <h3 className="text-sm font-medium text-theme-primary">Download mirror</h3>
+        </div>
+        <p className="text-xs text-theme-muted mb-2">
+          Fetch model files from this site (e.g. /models) or a server on this device that serves the same paths as huggingface.co and raw.githubusercontent.com.
+        </p>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMirror(mirror);
+          }}
+          className="flex gap-2"
+        >
+          <input
+            value={mirror}
+            onChange={(e) => setMirror(e.target.value)}
+            placeholder="/models or http://localhost:8080"
+            aria-label="Mirror URL"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={mirror.trim() === modelMirrorUrl}
+            className="glass px-3 py-2 rounded-md text-sm text-theme-primary hover:bg-primary/20 transition-colors disabled:opacity-50 flex-shrink-0"
+          >
+            Save
+          </button>
+          {modelMirrorUrl && (
+            <button
+              type="button"
+              onClick={() => saveMirror('')}
+              className="glass px-3 py-2 rounded-md text-sm text-theme-secondary hover:bg-primary/20 transition-colors flex-shrink-0"
+            >
+              Turn off
+            </button>
+          )}
+        </form>
+        {mirrorError && <p className="text-xs text-red-400 mt-1" role="alert">{mirrorError}</p>}
+        {modelMirrorUrl && !mirrorError && (
+          <p className="text-xs text-green-400 mt-1">Models download from {modelMirrorUrl}</p>
+        )}
+      </div>
+
+      {/* Folder import */}
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <FolderInput className="h-4 w-4 text-accent" aria-hidden="true" />
+          <h3 className="text-sm font-medium text-theme-primary">Import a model folder</h3>
+        </div>
+        <p className="text-xs text-theme-muted mb-2">
+          Copy a downloaded model (the Hugging Face repo folder, optionally with its .wasm library) into this browser so it loads without internet.
+        </p>
+        <select
+          value={modelId}
+          onChange={(e) => setModelId(e.target.value)}
+          aria-label="Model to import"
+          className={`${inputClass} mb-2`}
+        >
+          {builds.map(build => <option key={build.id} value={build.id}>{build.name}</option>)}
+        </select>
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragOver(true);
+          }}
+          onDragLeave={() => setDragOver(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed p-4 text-xs text-center cursor-pointer transition-colors ${
+            dragOver ? 'border-primary bg-primary/10' : 'border-white/20 hover:border-primary/50'
+          } ${importing ? 'pointer-events-none opacity-60' : ''}`}
+        >
+          {importing ? (
+            <span className="flex items-center gap-2 text-theme-secondary">
+              <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              {importing}
+            </span>
+          ) : (
+            <>
+              <span className="text-theme-primary">Drop the model folder here or click to choose it</span>
+              <span className="text-theme-muted">A folder named after the model id selects that model automatically</span>
+            </>
+          )}
+          <input
+            type="file"
+            ref={(el) => el?.setAttribute('webkitdirectory', '')}
+            onChange={handlePick}
+            disabled={importing !== null}
+            className="hidden"
+            aria-label="Model folder"
+          />
+        </label>
+        {result && (
+          <p className={`text-xs mt-2 ${result.ok ? 'text-green-400' : 'text-red-400'}`} role={result.ok ? undefined : 'alert'}>
+            {result.text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, Shield, Loader2 } from 'lucide-react';
+import { useChatStore } from '../store/chat-store';
+import { MIN_PASSPHRASE_LENGTH } from '../lib/vault';
+
+interface VaultSettingsProps {
+  /** Compact unlock-only form (used in the sidebar) */
+  compact?: boolean;
+}
+
+export const VaultSettings: React.FC<VaultSettingsProps> = ({ compact = false }) => {
+  const { vaultStatus, enableStorage, unlockStorage, lockStorage, disableStorage } = useChatStore();
+
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  // Key derivation takes a moment (600k PBKDF2 iterations)
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setShowDeleteConfirm(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Vault operation failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+    run(() => enableStorage(passphrase));
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => unlockStorage(passphrase));
+  };
+
+  const inputClass = 'w-full glass rounded-md px-3 py-2 text-sm text-theme-primary placeholder-theme-muted focus:outline-none focus:ring-2 focus:ring-primary';
+  const buttonClass = 'glass px-3 py-2 rounded-md text-sm text-theme-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2';
+
+  if (compact) {
+    if (vaultStatus !== 'locked') return null;
+    return (
+      <form onSubmit={handleUnlock} className="space-y-2">
+        <p className="text-xs text-theme-secondary flex items-center gap-1">
+          <Lock className="h-3 w-3" aria-hidden="true" />
+          Saved chats are locked
+        </p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Vault passphrase"
+          aria-label="Vault passphrase"
+          autoComplete="current-password"
+          className={inputClass}
+        />
+        <button type="submit" disabled={busy || !passphrase} className={`${buttonClass} w-full justify-center hover:bg-primary/20`}>
+          {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Unlock className="h-3 w-3" />}
+          Unlock
+        </button>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </form>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-2">
+        <Shield className="h-5 w-5 text-accent" />
+        <div>
+          <p className="text-theme-primary font-medium">Encrypted local vault</p>
+          <p className="text-xs text-theme-secondary">
+            {vaultStatus === 'none' && 'Off: chats are in memory only and vanish when the tab closes.'}
+            {vaultStatus === 'locked' && 'Locked: enter your passphrase to restore saved chats.'}
+            {vaultStatus === 'unlocked' && 'On: chats and settings are saved on this device, encrypted with AES-GCM.'}
+          </p>
+        </div>
+      </div>
+
+      {vaultStatus === 'none' && (
+        <form onSubmit={handleEnable} className="space-y-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={`Passphrase (min. ${MIN_PASSPHRASE_LENGTH} characters)`}
+            aria-label="New vault passphrase"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            placeholder="Confirm passphrase"
+            aria-label="Confirm vault passphrase"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={busy || passphrase.length < MIN_PASSPHRASE_LENGTH}
+            className={`${buttonClass} hover:bg-primary/20`}
+          >
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Lock className="h-4 w-4" />}
+            Enable vault
+          </button>
+          <p className="text-xs text-theme-muted">
+            The passphrase cannot be recovered. If you forget it, the saved chats are lost.
+          </p>
+        </form>
+      )}
+
+      {vaultStatus === 'locked' && (
+        <form onSubmit={handleUnlock} className="space-y-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Vault passphrase"
+            aria-label="Vault passphrase"
+            autoComplete="current-password"
+            className={inputClass}
+          />
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy || !passphrase} className={`${buttonClass} hover:bg-primary/20`}>
+              {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Unlock className="h-4 w-4" />}
+              Unlock
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowDeleteConfirm(true)}
+              disabled={busy}
+              className={`${buttonClass} hover:bg-red-500/20`}
+            >
+              Delete vault
+            </button>
+          </div>
+        </form>
+      )}
+
+      {vaultStatus === 'unlocked' && (
+        <div className="flex gap-2">
+          <button onClick={() => run(lockStorage)} disabled={busy} className={`${buttonClass} hover:bg-primary/20`}>
+            <Lock className="h-4 w-4" />
+            Lock now
+          </button>
+          <button
+            onClick={() => setShowDeleteConfirm(true)}
+            disabled={busy}
+            className={`${buttonClass} hover:bg-red-500/20`}
+          >
+            Disable & delete
+          </button>
+        </div>
+      )}
+
+      {showDeleteConfirm && (
+        <div className="mt-2 glass rounded-md p-3 border-red-500/30 bg-red-500/10">
+          <p className="text-xs text-red-400 mb-2">
+            Permanently delete the vault and everything saved in it? Chats currently open stay in memory.
+          </p>
+          <div className="flex gap-2">
+            <button onClick={() => setShowDeleteConfirm(false)} className={`${buttonClass} glass-hover`}>
+              Cancel
+            </button>
+            <button
+              onClick={() => run(disableStorage)}
+              disabled={busy}
+              className="bg-red-500 px-3 py-2 rounded-md text-sm text-white hover:bg-red-600 disabled:opacity-50"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it, vi } from 'vitest';
+import { runDeviceBenchmark } from './benchmark';
+import { MockBackend } from './mock-backend';
+
+describe('runDeviceBenchmark', () => {
+  it('counts tokens from the reply stats instead of re-tokenising', async () => {
+    const backend = new MockBackend({ tokenDelayMs: 1, loadDurationMs: 0 });
+    backend.scriptReplies(Array.from({ length: 20 }, (_, i) => `${i + 1},`).join(' '));
+    const getTokenCount = vi.spyOn(backend, 'getTokenCount');
+
+    const result = await runDeviceBenchmark(backend);
+
+    expect(getTokenCount).not.toHaveBeenCalled();
+    expect(result.prefillTokensPerSecond).toBeGreaterThan(0);
+    expect(result.decodeTokensPerSecond).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,146 @@
+// Device Benchmark
+// Opt-in speed test: loads the smallest model, times a fixed prompt (prefill)
+// and a short reply (decode), and predicts every other model's speed from
+// that. Recommendations then rest on a measurement instead of guesses about
+// RAM and GPU names.
+
+import { MODELS, getModelSizeMB } from './model-config';
+import type { ModelConfig } from './model-config';
+import type { InferenceBackend, LoadProgressCallback } from './inference-backend';
+import type { GenerationStats } from './generation-stats';
+
+export interface BenchmarkResult {
+  /** Model the measurement was taken with */
+  modelId: string;
+  /** Prompt tokens processed per second */
+  prefillTokensPerSecond: number;
+  /** Reply tokens generated per second */
+  decodeTokensPerSecond: number;
+  /**
+   * Highest JS heap use of the page seen during the run in MB. Only Chromium
+   * reports it (null elsewhere), and it covers the main thread's JS objects
+   * only: model weights and GPU buffers are not in it, and with the engine in
+   * a worker it barely moves.
+   */
+  peakJsHeapMB: number | null;
+  /** ISO timestamp */
+  measuredAt: string;
+}
+
+export type SpeedRating = 'fast' | 'usable' | 'slow';
+
+export interface ModelSpeedEstimate {
+  model: ModelConfig;
+  /** Predicted reply speed */
+  tokensPerSecond: number;
+  rating: SpeedRating;
+}
+
+export const BENCHMARK_MODEL = MODELS.qwen2_0_5b;
+
+// Roughly reading speed; below USABLE replies feel stuck
+const FAST_TOKENS_PER_SECOND = 20;
+const USABLE_TOKENS_PER_SECOND = 8;
+const BENCHMARK_REPLY_TOKENS = 64;
+// Fewer reply tokens than this are too few to time
+const MIN_TIMED_TOKENS = 8;
+
+// Fixed text so runs are comparable; long enough for prefill to take measurable time
+const BENCHMARK_PASSAGE = Array.from({ length: 12 }, (_, i) =>
+  `Section ${i + 1}. The river rose slowly through the spring, carrying silt from the hills ` +
+  'down to the wide plain where farmers had planted barley, beans and flax along its banks.'
+).join('\n');
+
+const BENCHMARK_PROMPT = `${BENCHMARK_PASSAGE}\n\nIgnore the text above and count from 1 to 200, separated by commas.`;
+
+// Chromium exposes heap use; other browsers report nothing
+const readHeapMB = (): number | null => {
+  const memory = (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory;
+  return memory ? memory.usedJSHeapSize / (1024 * 1024) : null;
+};
+
+/**
+ * Loads the benchmark model into `backend` and measures prefill and decode speed.
+ * Token counts and speeds come from the backend's reply stats, which for
+ * WebLLM are the engine's own (chat template included); the reply is only
+ * re-tokenised and timed here when the backend reports no stats.
+ * The model stays loaded afterwards; the caller decides whether to keep it.
+ *
+ * @throws Error if the reply was too short to time, or whatever the load throws
+ */
+export async function runDeviceBenchmark(
+  backend: InferenceBackend,
+  onProgress?: LoadProgressCallback
+): Promise<BenchmarkResult> {
+  await backend.initializeModel(BENCHMARK_MODEL, onProgress);
+  onProgress?.(100, 'Measuring speed...');
+
+  let peakHeap = readHeapMB();
+  const sampleHeap = () => {
+    const heap = readHeapMB();
+    if (heap !== null && (peakHeap === null || heap > peakHeap)) peakHeap = heap;
+  };
+
+  let firstTokenAt: number | null = null;
+  let stats = null as GenerationStats | null;
+  const messages = [{ id: 'benchmark', role: 'user' as const, content: BENCHMARK_PROMPT, timestamp: new Date() }];
+  const startedAt = performance.now();
+  const reply = await backend.generateResponse(messages, {
+    onToken: () => {
+      firstTokenAt ??= performance.now();
+      sampleHeap();
+    },
+    onStats: (result) => { stats = result; },
+    settings: { temperature: 0, maxTokens: BENCHMARK_REPLY_TOKENS, seed: 0, stop: [] }
+  });
+  const finishedAt = performance.now();
+  sampleHeap();
+
+  const replyTokens = stats?.completionTokens ?? await backend.getTokenCount(reply);
+  if (firstTokenAt === null || replyTokens < MIN_TIMED_TOKENS || finishedAt <= firstTokenAt) {
+    throw new Error('The benchmark reply was too short to time. Please run it again.');
+  }
+  const promptTokens = stats?.promptTokens ?? await backend.getTokenCount(BENCHMARK_PROMPT);
+
+  // Otherwise time to first token is dominated by the prompt; the rest is one token at a time
+  return {
+    modelId: backend.getCurrentModel() ?? BENCHMARK_MODEL.id,
+    prefillTokensPerSecond: stats?.prefillTokensPerSecond ?? promptTokens / ((firstTokenAt - startedAt) / 1000),
+    decodeTokensPerSecond: stats?.tokensPerSecond ?? (replyTokens - 1) / ((finishedAt - firstTokenAt) / 1000),
+    peakJsHeapMB: peakHeap === null ? null : Math.round(peakHeap),
+    measuredAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Predicted reply speed for a model. Decoding is bound by reading the weights
+ * once per token, so speed scales inversely with model size.
+ */
+export function predictTokensPerSecond(model: ModelConfig, result: BenchmarkResult): number {
+  return result.decodeTokensPerSecond * getModelSizeMB(BENCHMARK_MODEL) / getModelSizeMB(model);
+}
+
+export function getSpeedRating(tokensPerSecond: number): SpeedRating {
+  if (tokensPerSecond >= FAST_TOKENS_PER_SECOND) return 'fast';
+  return tokensPerSecond >= USABLE_TOKENS_PER_SECOND ? 'usable' : 'slow';
+}
+
+/**
+ * Ranks models for this device: the largest (most capable) model that still
+ * runs at a usable speed comes first; slow models go last, fastest first.
+ */
+export function rankModelsForDevice(models: ModelConfig[], result: BenchmarkResult): ModelSpeedEstimate[] {
+  return models
+    .map(model => {
+      const tokensPerSecond = predictTokensPerSecond(model, result);
+      return { model, tokensPerSecond, rating: getSpeedRating(tokensPerSecond) };
+    })
+    .sort((a, b) => {
+      const aSlow = a.rating === 'slow';
+      const bSlow = b.rating === 'slow';
+      if (aSlow !== bSlow) return aSlow ? 1 : -1;
+      return aSlow
+        ? b.tokensPerSecond - a.tokensPerSecond
+        : getModelSizeMB(b.model) - getModelSizeMB(a.model);
+    });
+}
@@ -0,0 +1,142 @@
+// Conversation Compaction
+// Long conversations can be condensed: the oldest turns on a branch are
+// summarized by the loaded model into a pinned context message that replaces
+// them in the prompt. The original messages stay in the conversation and can
+// still be viewed, edited or branched from.
+
+import type { ChatMessage } from './webllm-service';
+import type { InferenceBackend } from './inference-backend';
+import { generateSecureId } from './security';
+import { splitReasoning } from './reasoning';
+
+export interface ContextSummary {
+  id: string;
+  /** Last message the summary covers; it applies to every branch through it */
+  throughMessageId: string;
+  /** Summary text written by the model */
+  content: string;
+  /** Number of original messages folded into the summary */
+  messageCount: number;
+  createdAt: Date;
+}
+
+// The newest messages are always sent verbatim
+export const KEEP_RECENT_MESSAGES = 4;
+
+// Fewer than this many candidates is not worth a summarization pass
+const MIN_MESSAGES_TO_COMPACT = 2;
+
+const SUMMARY_MAX_TOKENS = 384;
+// Room for the summarization instructions and chat template
+const SUMMARY_PROMPT_OVERHEAD_TOKENS = 256;
+
+const SUMMARY_INSTRUCTION =
+  'You condense chat transcripts. Summarize the conversation below so it can replace the original messages. ' +
+  'Keep facts, decisions, names, numbers, code identifiers, the user\'s goals and any open questions. ' +
+  'Write in third person, under 200 words, and output only the summary.';
+
+/**
+ * Finds the summary that covers the most of `branch`.
+ *
+ * @returns The summary (or null), how many leading messages it replaces, and
+ * the remaining messages that are still sent verbatim
+ */
+export function applySummary(
+  branch: ChatMessage[],
+  summaries: ContextSummary[]
+): { summary: ContextSummary | null; summarizedCount: number; history: ChatMessage[] } {
+  let summary: ContextSummary | null = null;
+  let summarizedCount = 0;
+
+  for (const candidate of summaries) {
+    const index = branch.findIndex(msg => msg.id === candidate.throughMessageId);
+    if (index + 1 > summarizedCount) {
+      summary = candidate;
+      summarizedCount = index + 1;
+    }
+  }
+
+  return { summary, summarizedCount, history: branch.slice(summarizedCount) };
+}
+
+/**
+ * Combines the user's system instruction with the pinned conversation summary.
+ */
+export function buildSystemPrompt(systemInstruction: string | undefined, summary: ContextSummary | null): string {
+  const parts: string[] = [];
+  if (systemInstruction?.trim()) {
+    parts.push(systemInstruction.trim());
+  }
+  if (summary) {
+    parts.push(`Summary of the earlier conversation:\n${summary.content}`);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Returns the unsummarized messages old enough to be folded into a summary.
+ */
+export function selectMessagesToCompact(history: ChatMessage[]): ChatMessage[] {
+  const candidates = history.slice(0, Math.max(0, history.length - KEEP_RECENT_MESSAGES));
+  return candidates.length >= MIN_MESSAGES_TO_COMPACT ? candidates : [];
+}
+
+/**
+ * Asks the loaded model to summarize `messages` (continuing `previous`, if any).
+ *
+ * Only as many messages as fit in the context window are summarized; the
+ * returned summary records the last one it covers.
+ *
+ * @returns The new summary, or null if nothing could be summarized
+ */
+export async function summarizeMessages(
+  backend: InferenceBackend,
+  previous: ContextSummary | null,
+  messages: ChatMessage[],
+  contextWindow: number
+): Promise<ContextSummary | null> {
+  let budget = contextWindow - SUMMARY_MAX_TOKENS - SUMMARY_PROMPT_OVERHEAD_TOKENS;
+  const lines: string[] = [];
+
+  if (previous) {
+    const line = `Earlier summary: ${previous.content}`;
+    budget -= await backend.getTokenCount(line);
+    lines.push(line);
+  }
+
+  const included: ChatMessage[] = [];
+  for (const msg of messages) {
+    const line = `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`;
+    const cost = await backend.getTokenCount(line);
+    if (cost > budget) break;
+    budget -= cost;
+    lines.push(line);
+    included.push(msg);
+  }
+
+  if (included.length === 0) {
+    return null;
+  }
+
+  const reply = await backend.generateResponse(
+    [{ id: 'compaction', role: 'user', content: `Transcript:\n\n${lines.join('\n\n')}`, timestamp: new Date() }],
+    {
+      systemInstruction: SUMMARY_INSTRUCTION,
+      settings: { temperature: 0.2, topP: 0.9, maxTokens: SUMMARY_MAX_TOKENS, stop: [], seed: null, thinking: false }
+    }
+  );
+  // Models that reason anyway (DeepSeek-R1) would otherwise fold it into the summary
+  const content = splitReasoning(reply).answer;
+
+  if (!content.trim()) {
+    return null;
+  }
+
+  return {
+    id: generateSecureId(8),
+    throughMessageId: included[included.length - 1].id,
+    content: content.trim(),
+    messageCount: (previous?.messageCount ?? 0) + included.length,
+    createdAt: new Date()
+  };
+}
@@ -0,0 +1,103 @@
+// Context Window Budgeting
+// Decides how much of a conversation fits in the model's context window:
+// system prompt + as many recent messages as possible + room for the reply.
+
+import type { ChatMessage } from './webllm-service';
+import type { ModelConfig } from './model-config';
+import { ContextOverflowError } from './inference-errors';
+
+// Used when a model (e.g. one restored from an older vault) has no window size
+export const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Fractions of the context window that trigger the UI warnings
+export const CONTEXT_WARNING_RATIO = 0.75;
+export const CONTEXT_CRITICAL_RATIO = 0.9;
+
+// Chat templates wrap each message in role markers (e.g. <|im_start|>user\n...<|im_end|>)
+const MESSAGE_OVERHEAD_TOKENS = 8;
+// Tokens that open the assistant turn the model is about to write
+const REPLY_PRIMER_TOKENS = 4;
+// The reply never reserves more than this share of the window
+const MAX_OUTPUT_SHARE = 0.5;
+
+export type TokenCounter = (text: string) => Promise<number>;
+
+export interface ContextBudget {
+  /** Messages to send, oldest first (always ends with the newest message) */
+  messages: ChatMessage[];
+  /** Tokens used by the system prompt and `messages`, including template overhead */
+  promptTokens: number;
+  /** Largest reply that still fits in the window (never above the requested max) */
+  maxOutputTokens: number;
+  /** Older messages left out because they did not fit */
+  droppedMessages: number;
+}
+
+interface BudgetOptions {
+  systemInstruction?: string;
+  contextWindow: number;
+  /** Reply length requested by the generation settings */
+  maxOutputTokens: number;
+  countTokens: TokenCounter;
+}
+
+export const getContextWindow = (model: ModelConfig | null | undefined): number =>
+  model?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+
+const countMessage = async (content: string, countTokens: TokenCounter): Promise<number> =>
+  (await countTokens(content)) + MESSAGE_OVERHEAD_TOKENS;
+
+/**
+ * Counts the tokens a prompt made of `messages` (and an optional system
+ * instruction) occupies in the context window.
+ */
+export async function countPromptTokens(
+  messages: ChatMessage[],
+  systemInstruction: string | undefined,
+  countTokens: TokenCounter
+): Promise<number> {
+  let total = REPLY_PRIMER_TOKENS;
+  if (systemInstruction?.trim()) {
+    total += await countMessage(systemInstruction.trim(), countTokens);
+  }
+  for (const msg of messages) {
+    total += await countMessage(msg.content, countTokens);
+  }
+  return total;
+}
+
+/**
+ * Selects the most recent messages that fit alongside the system prompt while
+ * leaving room for the reply.
+ *
+ * @throws ContextOverflowError if the newest message alone does not fit in the window
+ */
+export async function fitContext(history: ChatMessage[], options: BudgetOptions): Promise<ContextBudget> {
+  const { systemInstruction, contextWindow, maxOutputTokens, countTokens } = options;
+
+  const reservedOutput = Math.min(maxOutputTokens, Math.floor(contextWindow * MAX_OUTPUT_SHARE));
+  const promptLimit = contextWindow - reservedOutput;
+
+  let promptTokens = await countPromptTokens([], systemInstruction, countTokens);
+  const kept: ChatMessage[] = [];
+
+  // Walk backwards from the newest message, keeping whatever still fits
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = await countMessage(history[i].content, countTokens);
+    if (promptTokens + cost > promptLimit) break;
+    promptTokens += cost;
+    kept.unshift(history[i]);
+  }
+
+  if (history.length > 0 && kept.length === 0) {
+    throw new ContextOverflowError(contextWindow);
+  }
+
+  return {
+    messages: kept,
+    promptTokens,
+    // Short prompts leave extra room; never go past what the user asked for
+    maxOutputTokens: Math.min(maxOutputTokens, contextWindow - promptTokens),
+    droppedMessages: history.length - kept.length
+  };
+}
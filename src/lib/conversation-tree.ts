@@ -0,0 +1,60 @@
+// Conversation Tree Helpers
+// A conversation stores every message it has ever had; each message points at
+// its parent, so forks share their common history. The branch on screen is the
+// path from the root to the conversation's active leaf.
+
+import type { ChatMessage } from './webllm-service';
+
+/**
+ * Returns the messages whose parent is `parentId`, in creation order.
+ * Pass null to get the root messages.
+ */
+export function getChildren(messages: ChatMessage[], parentId: string | null): ChatMessage[] {
+  return messages.filter(msg => (msg.parentId ?? null) === parentId);
+}
+
+/**
+ * Returns the messages sharing a parent with `message` (including itself).
+ */
+export function getSiblings(messages: ChatMessage[], message: ChatMessage): ChatMessage[] {
+  return getChildren(messages, message.parentId ?? null);
+}
+
+/**
+ * Returns the path from the root to `leafId`, oldest message first.
+ */
+export function getBranch(messages: ChatMessage[], leafId: string | null): ChatMessage[] {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const path: ChatMessage[] = [];
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  // Bounded walk guards against a corrupted (cyclic) parent chain
+  while (current && path.length <= messages.length) {
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path.reverse();
+}
+
+/**
+ * Follows the newest child from `messageId` down to a leaf.
+ * Used to pick which branch to show when jumping to a message.
+ */
+export function findBranchLeaf(messages: ChatMessage[], messageId: string): string {
+  let leafId = messageId;
+  for (let depth = 0; depth <= messages.length; depth++) {
+    const children = getChildren(messages, leafId);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+}
+
+/**
+ * Returns every message without children (one per branch).
+ */
+export function getLeaves(messages: ChatMessage[]): ChatMessage[] {
+  const parents = new Set(messages.map(msg => msg.parentId).filter(Boolean));
+  return messages.filter(msg => !parents.has(msg.id));
+}
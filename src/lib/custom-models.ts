@@ -0,0 +1,238 @@
+// Custom Models
+// Lets users add their own MLC-compiled models (weights repo + model library
+// WASM) to the catalog, from a form or an imported JSON manifest. WebLLM
+// only knows its prebuilt list, so these are handed to the engine through a
+// custom app config built here.
+
+import * as webllm from '@mlc-ai/web-llm';
+import { MODELS } from './model-config';
+import type { ModelConfig } from './model-config';
+import { ALLOWED_DOWNLOAD_DOMAINS, isLoopbackHost, safeJsonParse } from './security';
+import { DEFAULT_CONTEXT_WINDOW } from './context-budget';
+
+/**
+ * One model as entered in the form or listed in a manifest.
+ */
+export interface CustomModelInput {
+  /** MLC model id, e.g. 'MyModel-1B-Instruct-q4f16_1-MLC' */
+  id: string;
+  name?: string;
+  modelUrl: string;
+  modelLibUrl: string;
+  vramRequiredMB: number;
+  contextWindow?: number;
+  category?: ModelConfig['category'];
+  description?: string;
+  /** Pinned SHA-256 digests by file name (a custom model is a single build; see ModelConfig.sha256) */
+  sha256?: Record<string, string>;
+}
+
+export const MODEL_CATEGORIES: ModelConfig['category'][] = ['tiny', 'small', 'medium', 'large', 'xl', 'coding'];
+
+const MODEL_ID_PATTERN = /^[\w.-]{1,100}$/;
+// File names as they appear in ndarray-cache.json (shards may sit in a subfolder)
+const FILE_NAME_PATTERN = /^[\w.-]+(?:\/[\w.-]+)*$/;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/i;
+const MAX_VRAM_MB = 65536;
+const MIN_CONTEXT_WINDOW = 512;
+const MAX_CONTEXT_WINDOW = 131072;
+// A manifest is a handful of fine-tunes, not a registry mirror
+const MAX_MANIFEST_MODELS = 50;
+
+// Same host rules as the network guard in security-init: anything else would
+// be blocked at download time, so reject it up front with a clear message
+const validateModelUrl = (value: unknown, label: string): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${label} is required`);
+  }
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new Error(`${label} must be a full URL`);
+  }
+  // The only non-public hosts the Content-Security-Policy (connect-src) allows
+  const local = url.origin === window.location.origin || isLoopbackHost(url.hostname);
+  if (url.protocol !== 'https:' && !(local && url.protocol === 'http:')) {
+    throw new Error(`${label} must use https://`);
+  }
+  const allowed = ALLOWED_DOWNLOAD_DOMAINS.some(domain =>
+    url.hostname === domain || url.hostname.endsWith(`.${domain}`)
+  );
+  if (!allowed && !local) {
+    throw new Error(`${label} must be on Hugging Face, GitHub, this site or localhost`);
+  }
+  return url.href;
+};
+
+const formatSize = (megabytes: number): string =>
+  megabytes >= 1024 ? `${(megabytes / 1024).toFixed(2)}GB` : `${Math.round(megabytes)}MB`;
+
+// Tier and requirements in line with the built-in models of similar size
+const categoryForVram = (megabytes: number): ModelConfig['category'] => {
+  if (megabytes <= 1024) return 'tiny';
+  if (megabytes <= 2048) return 'small';
+  if (megabytes <= 3072) return 'medium';
+  if (megabytes <= 5120) return 'large';
+  return 'xl';
+};
+
+const gpuForVram = (megabytes: number): ModelConfig['requirements']['gpu'] => {
+  if (megabytes <= 1024) return 'optional';
+  return megabytes <= 3072 ? 'recommended' : 'required';
+};
+
+const validateHashes = (value: unknown): Record<string, string> | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('sha256 must map file names to digests');
+  }
+  const entries = Object.entries(value).map(([name, digest]) => {
+    if (!FILE_NAME_PATTERN.test(name) || name.split('/').includes('..')) {
+      throw new Error(`sha256: "${name}" is not a valid file name`);
+    }
+    if (typeof digest !== 'string' || !SHA256_PATTERN.test(digest)) {
+      throw new Error(`sha256: the digest for ${name} must be 64 hex characters`);
+    }
+    return [name, digest.toLowerCase()];
+  });
+  // fromEntries defines own properties, so a "__proto__" key stays a plain key
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const isBuiltInId = (id: string): boolean =>
+  Object.values(MODELS).some(model => model.id === id) ||
+  webllm.prebuiltAppConfig.model_list.some(record => record.model_id === id);
+
+/**
+ * Validates one custom model and describes it in the catalog's shape.
+ *
+ * @throws Error describing the first invalid field
+ */
+export function createCustomModel(input: CustomModelInput): ModelConfig {
+  const id = typeof input.id === 'string' ? input.id.trim() : '';
+  if (!MODEL_ID_PATTERN.test(id)) {
+    throw new Error('Model id may only contain letters, digits, ".", "-" and "_"');
+  }
+  if (isBuiltInId(id)) {
+    throw new Error(`"${id}" is already a built-in model`);
+  }
+
+  const modelUrl = validateModelUrl(input.modelUrl, 'Model URL');
+  const modelLibUrl = validateModelUrl(input.modelLibUrl, 'Model library URL');
+  if (!new URL(modelLibUrl).pathname.endsWith('.wasm')) {
+    throw new Error('Model library URL must point to a .wasm file');
+  }
+
+  const vramRequiredMB = Number(input.vramRequiredMB);
+  if (!Number.isFinite(vramRequiredMB) || vramRequiredMB <= 0 || vramRequiredMB > MAX_VRAM_MB) {
+    throw new Error(`VRAM requirement must be between 1 and ${MAX_VRAM_MB} MB`);
+  }
+
+  const contextWindow = input.contextWindow === undefined ? DEFAULT_CONTEXT_WINDOW : Number(input.contextWindow);
+  if (!Number.isInteger(contextWindow) || contextWindow < MIN_CONTEXT_WINDOW || contextWindow > MAX_CONTEXT_WINDOW) {
+    throw new Error(`Context window must be a whole number between ${MIN_CONTEXT_WINDOW} and ${MAX_CONTEXT_WINDOW}`);
+  }
+
+  if (input.category !== undefined && !MODEL_CATEGORIES.includes(input.category)) {
+    throw new Error(`Category must be one of: ${MODEL_CATEGORIES.join(', ')}`);
+  }
+
+  const sha256 = validateHashes(input.sha256);
+
+  const name = typeof input.name === 'string' && input.name.trim() ? input.name.trim().slice(0, 80) : id;
+  const description = typeof input.description === 'string' && input.description.trim()
+    ? input.description.trim().slice(0, 200)
+    : 'Custom model';
+
+  return {
+    id,
+    name,
+    size: formatSize(vramRequiredMB),
+    contextWindow,
+    requirements: {
+      ram: Math.max(2, Math.ceil(vramRequiredMB / 1024) * 3),
+      gpu: gpuForVram(vramRequiredMB)
+    },
+    description,
+    category: input.category ?? categoryForVram(vramRequiredMB),
+    source: { modelUrl, modelLibUrl, vramRequiredMB },
+    ...(sha256 && { sha256: { [id]: sha256 } })
+  };
+}
+
+/**
+ * Custom models saved before digests were keyed by build kept one flat map
+ * of file names; it belongs to the model's only build.
+ */
+export function upgradeCustomModel(model: ModelConfig): ModelConfig {
+  const pinned: Record<string, unknown> | undefined = model.sha256;
+  if (!pinned || !Object.values(pinned).some(value => typeof value === 'string')) return model;
+  return { ...model, sha256: { [model.id]: pinned as Record<string, string> } };
+}
+
+/**
+ * Reads a manifest: one model object, an array of them, or `{ "models": [...] }`.
+ *
+ * @throws Error naming the entry that failed validation
+ */
+export function parseCustomModelManifest(json: string): ModelConfig[] {
+  const parsed = safeJsonParse<unknown>(json);
+  if (parsed === null) {
+    throw new Error('The manifest is not valid JSON');
+  }
+
+  let entries: unknown[];
+  if (Array.isArray(parsed)) {
+    entries = parsed;
+  } else if (typeof parsed === 'object' && Array.isArray((parsed as { models?: unknown }).models)) {
+    entries = (parsed as { models: unknown[] }).models;
+  } else {
+    entries = [parsed];
+  }
+
+  if (entries.length === 0) {
+    throw new Error('The manifest does not list any models');
+  }
+  if (entries.length > MAX_MANIFEST_MODELS) {
+    throw new Error(`A manifest can list at most ${MAX_MANIFEST_MODELS} models`);
+  }
+
+  const models = entries.map((entry, index) => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      throw new Error(`Model ${index + 1}: expected an object`);
+    }
+    try {
+      return createCustomModel(entry as CustomModelInput);
+    } catch (e) {
+      throw new Error(`Model ${index + 1}: ${e instanceof Error ? e.message : 'invalid entry'}`);
+    }
+  });
+
+  const ids = new Set(models.map(model => model.id));
+  if (ids.size !== models.length) {
+    throw new Error('The manifest lists the same model id more than once');
+  }
+  return models;
+}
+
+/**
+ * WebLLM's prebuilt model list plus the given custom models.
+ */
+export function buildAppConfig(models: ModelConfig[]): webllm.AppConfig {
+  const customRecords: webllm.ModelRecord[] = models
+    .filter(model => model.source)
+    .map(model => ({
+      model: model.source!.modelUrl,
+      model_id: model.id,
+      model_lib: model.source!.modelLibUrl,
+      vram_required_MB: model.source!.vramRequiredMB,
+      low_resource_required: model.requirements.gpu === 'optional',
+      overrides: { context_window_size: model.contextWindow }
+    }));
+
+  return {
+    ...webllm.prebuiltAppConfig,
+    model_list: [...webllm.prebuiltAppConfig.model_list, ...customRecords]
+  };
+}
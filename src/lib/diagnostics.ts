@@ -0,0 +1,306 @@
+// Diagnostics
+// Assembles a support report: hardware and adapter limits, browser and
+// isolation headers, storage, cached models and the last load error. The
+// console is disabled in production, so this report is what the helpdesk gets.
+// Nothing here reads conversations; chat content can never end up in it.
+
+import { detectHardware } from './hardware-detect';
+import type { HardwareInfo, HardwareOverride } from './hardware-detect';
+import { getStorageStatus, listCachedModels } from './model-cache';
+import type { StorageStatus } from './model-cache';
+import type { BenchmarkResult } from './benchmark';
+import type { BackendKind } from './inference-backend';
+
+/**
+ * The most recent failed model load (kept for this session only).
+ */
+export interface LoadErrorRecord {
+  /** The local server's model names are whatever its owner called them */
+  backend: BackendKind;
+  modelId: string;
+  modelName: string;
+  /** InferenceErrorCode for typed errors, null otherwise */
+  code: string | null;
+  message: string;
+  /** ISO timestamp */
+  at: string;
+}
+
+/**
+ * App state the report describes; passed in by the caller.
+ */
+export interface DiagnosticContext {
+  backend: BackendKind | null;
+  selectedModelId: string | null;
+  runInWorker: boolean;
+  modelMirrorUrl: string;
+  localServerUrl: string | null;
+  customModelIds: string[];
+  hardwareOverride: HardwareOverride;
+  benchmark: BenchmarkResult | null;
+  lastLoadError: LoadErrorRecord | null;
+}
+
+export interface DiagnosticReport {
+  generatedAt: string;
+  app: {
+    backend: BackendKind | null;
+    selectedModelId: string | null;
+    runInWorker: boolean;
+    modelMirrorUrl: string | null;
+    localServerUrl: string | null;
+    customModelIds: string[];
+  };
+  browser: {
+    userAgent: string;
+    language: string;
+    online: boolean;
+    secureContext: boolean;
+    crossOriginIsolated: boolean;
+    /** Cross-Origin-Opener-Policy / -Embedder-Policy headers of this page (null if not sent or unreadable) */
+    crossOriginOpenerPolicy: string | null;
+    crossOriginEmbedderPolicy: string | null;
+    serviceWorkerActive: boolean;
+  };
+  hardware: HardwareInfo;
+  hardwareOverride: HardwareOverride;
+  benchmark: BenchmarkResult | null;
+  storage: StorageStatus;
+  cachedModels: {
+    modelId: string;
+    bytes: number;
+    files: number;
+    complete: boolean;
+    lastUsed: string | null;
+  }[];
+  lastLoadError: LoadErrorRecord | null;
+}
+
+export interface RedactionOptions {
+  /** GPU model name (identifies the machine more than it helps) */
+  gpuName: boolean;
+  /** Full user agent string; browser and OS stay in the device info */
+  userAgent: boolean;
+  /**
+   * URLs, host names and IP addresses (local server, mirror and any in the
+   * error message), plus model names the user chose: custom model ids and the
+   * local server's model
+   */
+  addresses: boolean;
+}
+
+export const DEFAULT_REDACTION: RedactionOptions = {
+  gpuName: true,
+  userAgent: true,
+  addresses: true
+};
+
+const REDACTED = '[redacted]';
+const URL_PATTERN = /\b(?:https?|wss?):\/\/[^\s'"<>)]+/gi;
+// Bracketed, or bare with a hex letter or '::' so times like 12:30:45 stay
+const IPV6_PATTERN = /\[[0-9a-f]*:[0-9a-f:.]*\](?::\d+)?|(?<![\w:.])(?=[0-9a-f:]*(?:::|[a-f]))(?:[0-9a-f]{0,4}:){2,7}[0-9a-f]{0,4}(?![\w:])/gi;
+// Host names with a port but no scheme, e.g. nas.local:8080 or localhost:11434
+const HOST_PORT_PATTERN = /\b(?:localhost|(?:[a-z0-9-]+\.)+[a-z0-9-]+):\d{1,5}\b/gi;
+const IPV4_PATTERN = /\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g;
+
+const redactAddresses = (text: string): string =>
+  text
+    .replace(URL_PATTERN, '[redacted URL]')
+    .replace(IPV6_PATTERN, '[redacted IP]')
+    .replace(HOST_PORT_PATTERN, '[redacted host]')
+    .replace(IPV4_PATTERN, '[redacted IP]');
+
+// Replaces every occurrence of each name, longest first so no name is left half-replaced
+const replaceNames = (text: string, replacements: Map<string, string>): string =>
+  [...replacements]
+    .sort(([a], [b]) => b.length - a.length)
+    .reduce((result, [name, replacement]) => result.split(name).join(replacement), text);
+
+// The page's own response headers are only visible by requesting it again
+const readIsolationHeaders = async (): Promise<{ coop: string | null; coep: string | null }> => {
+  try {
+    const response = await fetch(window.location.href, { method: 'HEAD', cache: 'no-store' });
+    return {
+      coop: response.headers.get('cross-origin-opener-policy'),
+      coep: response.headers.get('cross-origin-embedder-policy')
+    };
+  } catch {
+    return { coop: null, coep: null };
+  }
+};
+
+/**
+ * Collects the report. Every probe is best effort: a failing one leaves its
+ * section empty instead of failing the report.
+ */
+export async function collectDiagnostics(context: DiagnosticContext): Promise<DiagnosticReport> {
+  const [hardware, headers, storage, cached] = await Promise.all([
+    detectHardware(),
+    readIsolationHeaders(),
+    getStorageStatus(),
+    listCachedModels().catch(() => [])
+  ]);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    app: {
+      backend: context.backend,
+      selectedModelId: context.selectedModelId,
+      runInWorker: context.runInWorker,
+      modelMirrorUrl: context.modelMirrorUrl || null,
+      localServerUrl: context.localServerUrl,
+      customModelIds: context.customModelIds
+    },
+    browser: {
+      userAgent: navigator.userAgent,
+      language: navigator.language,
+      online: navigator.onLine,
+      secureContext: window.isSecureContext,
+      crossOriginIsolated: window.crossOriginIsolated ?? false,
+      crossOriginOpenerPolicy: headers.coop,
+      crossOriginEmbedderPolicy: headers.coep,
+      serviceWorkerActive: Boolean(navigator.serviceWorker?.controller)
+    },
+    hardware,
+    hardwareOverride: context.hardwareOverride,
+    benchmark: context.benchmark,
+    storage,
+    cachedModels: cached.map(model => ({
+      modelId: model.modelId,
+      bytes: model.bytes,
+      files: model.files,
+      complete: model.complete,
+      lastUsed: model.lastUsed?.toISOString() ?? null
+    })),
+    lastLoadError: context.lastLoadError
+  };
+}
+
+/**
+ * A copy of the report with the selected fields blanked out.
+ */
+export function redactReport(report: DiagnosticReport, options: RedactionOptions): DiagnosticReport {
+  const redacted: DiagnosticReport = structuredClone(report);
+  if (options.gpuName && redacted.hardware.gpuInfo) {
+    redacted.hardware.gpuInfo.name = REDACTED;
+  }
+  if (options.userAgent) {
+    redacted.browser.userAgent = REDACTED;
+  }
+  if (options.addresses) {
+    const { app } = redacted;
+    if (app.modelMirrorUrl) app.modelMirrorUrl = REDACTED;
+    if (app.localServerUrl) app.localServerUrl = REDACTED;
+
+    // Custom models keep a numbered placeholder so the sections still line up
+    const names = new Map(app.customModelIds.map((id, i) => [id, `custom-model-${i + 1}`]));
+    const serverModel = app.backend === 'openai-compatible' ? app.selectedModelId : null;
+    if (serverModel) names.set(serverModel, REDACTED);
+    const error = redacted.lastLoadError;
+    if (error?.backend === 'openai-compatible') names.set(error.modelId, REDACTED);
+    if (error && (error.backend === 'openai-compatible' || app.customModelIds.includes(error.modelId))) {
+      error.modelName = REDACTED;
+    }
+
+    const redactName = (name: string): string => names.get(name) ?? name;
+    app.customModelIds = app.customModelIds.map(redactName);
+    if (app.selectedModelId) app.selectedModelId = redactName(app.selectedModelId);
+    redacted.cachedModels.forEach(model => { model.modelId = redactName(model.modelId); });
+    if (error) {
+      error.modelId = redactName(error.modelId);
+      error.message = redactAddresses(replaceNames(error.message, names));
+    }
+  }
+  return redacted;
+}
+
+export function formatDiagnosticsJson(report: DiagnosticReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+const formatMB = (bytes: number | null): string =>
+  bytes === null ? 'unknown' : `${Math.round(bytes / (1024 * 1024))} MB`;
+
+export function formatDiagnosticsMarkdown(report: DiagnosticReport): string {
+  const { app, browser, hardware, storage } = report;
+  const gpu = hardware.gpuInfo;
+  const lines = [
+    '# OBLIVAI Diagnostics',
+    '',
+    `Generated: ${report.generatedAt}`,
+    '',
+    '## App',
+    `- Backend: ${app.backend ?? 'none'}`,
+    `- Selected model: ${app.selectedModelId ?? 'none'}`,
+    `- Background thread: ${app.runInWorker ? 'on' : 'off'}`,
+    `- Download mirror: ${app.modelMirrorUrl ?? 'none'}`,
+    `- Local server: ${app.localServerUrl ?? 'none'}`,
+    `- Custom models: ${app.customModelIds.length > 0 ? app.customModelIds.join(', ') : 'none'}`,
+    '',
+    '## Browser',
+    `- Browser / OS: ${hardware.deviceInfo.browser} on ${hardware.deviceInfo.os} (${hardware.deviceInfo.type}, ${hardware.deviceInfo.screenSize} screen)`,
+    `- User agent: ${browser.userAgent}`,
+    `- Language: ${browser.language}`,
+    `- Online: ${browser.online ? 'yes' : 'no'}`,
+    `- Secure context: ${browser.secureContext ? 'yes' : 'no'}`,
+    `- Cross-origin isolated: ${browser.crossOriginIsolated ? 'yes' : 'no'}`,
+    `- COOP: ${browser.crossOriginOpenerPolicy ?? 'not sent'}`,
+    `- COEP: ${browser.crossOriginEmbedderPolicy ?? 'not sent'}`,
+    `- Service worker active: ${browser.serviceWorkerActive ? 'yes' : 'no'}`,
+    '',
+    '## Hardware',
+    `- Backend: ${hardware.backend} (WebGPU ${hardware.hasWebGPU ? 'available' : 'unavailable'})`,
+    `- CPU cores: ${hardware.cores}`,
+    `- System RAM: ${hardware.memory} GB (${hardware.memoryConfidence} confidence)`,
+    `- Recommended tier: ${hardware.recommendedModel}`
+  ];
+  if (gpu) {
+    lines.push(
+      `- GPU: ${gpu.name}`,
+      `- GPU memory: at least ${gpu.vram ?? '?'} GB (${gpu.vramConfidence} confidence)`,
+      `- maxBufferSize: ${formatMB(gpu.maxBufferSize)}`,
+      `- maxStorageBufferBindingSize: ${formatMB(gpu.maxStorageBufferBindingSize)}`,
+      `- Features: ${gpu.features.length > 0 ? gpu.features.join(', ') : 'none'}`
+    );
+  }
+  const override = report.hardwareOverride;
+  if (override.memoryGB !== null || override.vramGB !== null) {
+    lines.push(`- User override: RAM ${override.memoryGB ?? 'detected'} GB, GPU memory ${override.vramGB ?? 'detected'} GB`);
+  }
+  if (report.benchmark) {
+    lines.push(
+      `- Benchmark (${report.benchmark.modelId}, ${report.benchmark.measuredAt}): ` +
+      `decode ${report.benchmark.decodeTokensPerSecond.toFixed(1)} tok/s, prefill ${report.benchmark.prefillTokensPerSecond.toFixed(1)} tok/s`
+    );
+  }
+
+  lines.push(
+    '',
+    '## Storage',
+    `- Used: ${formatMB(storage.usage)} of ${formatMB(storage.quota)}`,
+    `- Persistent: ${storage.persisted === null ? 'unknown' : storage.persisted ? 'yes' : 'no'}`,
+    '',
+    '## Cached Models'
+  );
+  if (report.cachedModels.length === 0) {
+    lines.push('- none');
+  }
+  for (const model of report.cachedModels) {
+    lines.push(`- ${model.modelId}: ${formatMB(model.bytes)}, ${model.files} files${model.complete ? '' : ', partial'}`);
+  }
+
+  lines.push('', '## Last Load Error');
+  if (report.lastLoadError) {
+    const error = report.lastLoadError;
+    lines.push(
+      `- Model: ${error.modelName} (${error.modelId})`,
+      `- Code: ${error.code ?? 'none'}`,
+      `- At: ${error.at}`,
+      `- Message: ${error.message}`
+    );
+  } else {
+    lines.push('- none');
+  }
+
+  return lines.join('\n') + '\n';
+}
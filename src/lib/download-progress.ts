@@ -0,0 +1,109 @@
+// Model Download Progress
+// WebLLM reports weight downloads as a fraction plus a text line
+// ("Fetching param cache[3/52]: 120MB fetched. 5% completed, ..."). This turns
+// those reports into byte counts, throughput and an ETA for the loading UI.
+
+export interface DownloadProgress {
+  /** 'download' while fetching shards, 'load' while moving them onto the GPU */
+  phase: 'download' | 'load';
+  loadedBytes: number;
+  totalBytes: number;
+  /** Bytes found in the browser cache from an earlier, interrupted download */
+  resumedBytes: number;
+  /** Recent network throughput, null until there is enough data */
+  bytesPerSecond: number | null;
+  /** Estimated seconds until the download finishes, null if unknown */
+  etaSeconds: number | null;
+}
+
+const MB = 1024 * 1024;
+
+const FETCH_PATTERN = /^Fetching param cache\[\d+\/\d+\]: (\d+)MB fetched/;
+const LOAD_PATTERN = /^Loading model from cache\[\d+\/\d+\]: (\d+)MB loaded/;
+const FETCH_START_TEXT = 'Start to fetch params';
+
+// Cached shards are reported back to back; the first slower gap means the network is in use
+const CACHE_HIT_GAP_MS = 250;
+// Throughput is averaged over this much recent history
+const RATE_WINDOW_MS = 10_000;
+const MIN_RATE_SPAN_MS = 1000;
+
+interface Sample {
+  time: number;
+  bytes: number;
+}
+
+/**
+ * Accumulates WebLLM progress reports for one model load.
+ */
+export class DownloadTracker {
+  private samples: Sample[] = [];
+  private resumedBytes = 0;
+  private checkingCache = true;
+  private lastReportTime: number | null = null;
+
+  /**
+   * Feeds one progress report.
+   *
+   * @returns Byte-level progress, or null if the report is not about weights
+   */
+  update(report: { progress: number; text?: string }, now = performance.now()): DownloadProgress | null {
+    const text = report.text ?? '';
+    // Sent right before the first shard; cache hits are timed from here
+    if (text === FETCH_START_TEXT) {
+      this.lastReportTime = now;
+      return null;
+    }
+
+    const fetched = FETCH_PATTERN.exec(text);
+    const loaded = fetched ? null : LOAD_PATTERN.exec(text);
+    if (!fetched && !loaded) return null;
+
+    const loadedBytes = Number((fetched ?? loaded)![1]) * MB;
+    // WebLLM rounds to whole MB, so derive the total from the exact fraction
+    const totalBytes = report.progress > 0 ? Math.max(loadedBytes, Math.round(loadedBytes / report.progress)) : 0;
+
+    if (loaded) {
+      return { phase: 'load', loadedBytes, totalBytes, resumedBytes: this.resumedBytes, bytesPerSecond: null, etaSeconds: null };
+    }
+
+    if (this.checkingCache) {
+      if (this.lastReportTime === null || now - this.lastReportTime < CACHE_HIT_GAP_MS) {
+        this.resumedBytes = loadedBytes;
+      } else {
+        this.checkingCache = false;
+      }
+    }
+    this.lastReportTime = now;
+
+    let bytesPerSecond: number | null = null;
+    if (!this.checkingCache) {
+      this.samples.push({ time: now, bytes: loadedBytes });
+      this.samples = this.samples.filter(s => now - s.time <= RATE_WINDOW_MS);
+      // The last cache hit anchors the first network interval
+      if (this.samples.length === 1) {
+        this.samples.unshift({ time: now - CACHE_HIT_GAP_MS, bytes: this.resumedBytes });
+      }
+      const first = this.samples[0];
+      const span = now - first.time;
+      if (span >= MIN_RATE_SPAN_MS && loadedBytes > first.bytes) {
+        bytesPerSecond = ((loadedBytes - first.bytes) / span) * 1000;
+      }
+    }
+
+    const etaSeconds = bytesPerSecond && totalBytes > loadedBytes
+      ? Math.ceil((totalBytes - loadedBytes) / bytesPerSecond)
+      : null;
+
+    return { phase: 'download', loadedBytes, totalBytes, resumedBytes: this.resumedBytes, bytesPerSecond, etaSeconds };
+  }
+}
+
+export const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * MB ? `${(bytes / (1024 * MB)).toFixed(2)} GB` : `${Math.round(bytes / MB)} MB`;
+
+export const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
@@ -0,0 +1,78 @@
+// Sampling parameters used for response generation.
+// Stored per conversation and passed to the inference engine on every request.
+
+export interface GenerationSettings {
+  /** Sampling temperature (0 = deterministic, higher = more random) */
+  temperature: number;
+  /** Nucleus sampling probability mass */
+  topP: number;
+  /** Maximum number of tokens to generate per reply */
+  maxTokens: number;
+  /** Penalize tokens by how often they already appeared (-2 to 2) */
+  frequencyPenalty: number;
+  /** Penalize tokens that appeared at all (-2 to 2) */
+  presencePenalty: number;
+  /** Generation stops when any of these strings is produced */
+  stop: string[];
+  /** Fixed RNG seed for reproducible output; null picks a random one */
+  seed: number | null;
+  /** Let models with switchable reasoning (Qwen3) think before answering */
+  thinking: boolean;
+}
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  temperature: 0.7, // Good balance for quality and diversity
+  topP: 0.95, // Slightly reduced for faster sampling
+  maxTokens: 1024, // Sized for consumer GPUs (RTX 4050/3060)
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+  stop: [],
+  seed: null,
+  thinking: true
+};
+
+// Upper bounds enforced by the UI and the service
+export const GENERATION_LIMITS = {
+  temperature: { min: 0, max: 2, step: 0.05 },
+  topP: { min: 0.05, max: 1, step: 0.05 },
+  maxTokens: { min: 16, max: 8192, step: 16 },
+  penalty: { min: -2, max: 2, step: 0.1 },
+  maxStopSequences: 4
+} as const;
+
+export const GENERATION_PRESETS: { id: string; label: string; settings: Partial<GenerationSettings> }[] = [
+  {
+    id: 'precise',
+    label: 'Precise (code)',
+    settings: { temperature: 0, topP: 1, maxTokens: 2048, frequencyPenalty: 0, presencePenalty: 0 }
+  },
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    settings: { ...DEFAULT_GENERATION_SETTINGS }
+  },
+  {
+    id: 'creative',
+    label: 'Creative',
+    settings: { temperature: 1.1, topP: 0.95, maxTokens: 2048, frequencyPenalty: 0.3, presencePenalty: 0.6 }
+  }
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Fills in missing fields and clamps every value into its supported range.
+ */
+export function normalizeGenerationSettings(settings?: Partial<GenerationSettings>): GenerationSettings {
+  const merged = { ...DEFAULT_GENERATION_SETTINGS, ...settings };
+  return {
+    temperature: clamp(merged.temperature, GENERATION_LIMITS.temperature.min, GENERATION_LIMITS.temperature.max),
+    topP: clamp(merged.topP, GENERATION_LIMITS.topP.min, GENERATION_LIMITS.topP.max),
+    maxTokens: Math.round(clamp(merged.maxTokens, GENERATION_LIMITS.maxTokens.min, GENERATION_LIMITS.maxTokens.max)),
+    frequencyPenalty: clamp(merged.frequencyPenalty, GENERATION_LIMITS.penalty.min, GENERATION_LIMITS.penalty.max),
+    presencePenalty: clamp(merged.presencePenalty, GENERATION_LIMITS.penalty.min, GENERATION_LIMITS.penalty.max),
+    stop: merged.stop.filter(s => s.length > 0).slice(0, GENERATION_LIMITS.maxStopSequences),
+    seed: merged.seed === null || !Number.isFinite(merged.seed) ? null : Math.trunc(merged.seed),
+    thinking: merged.thinking !== false
+  };
+}
@@ -0,0 +1,110 @@
+// Generation Stats
+// Per-reply performance numbers: token counts, time to first token and decode
+// speed. Backends time the stream themselves and prefer whatever usage figures
+// the engine or server reports, which are exact where the stream is not.
+
+/**
+ * Why a reply ended: the model finished, it hit the max tokens limit, or the
+ * user stopped it.
+ */
+export type FinishReason = 'stop' | 'length' | 'abort';
+
+export interface GenerationStats {
+  /** Tokens in the prompt, system prompt included (null when not reported) */
+  promptTokens: number | null;
+  /** Tokens in the reply */
+  completionTokens: number;
+  /** Seconds from the request to the first reply token (null if none arrived) */
+  timeToFirstToken: number | null;
+  /** Reply tokens per second after the first one (null if too few to time) */
+  tokensPerSecond: number | null;
+  /** Prompt tokens processed per second, only when the engine reports it */
+  prefillTokensPerSecond?: number;
+  finishReason: FinishReason;
+}
+
+/**
+ * Figures reported by the engine or server; they replace the measured ones.
+ */
+export type ReportedStats = Partial<Omit<GenerationStats, 'finishReason'>>;
+
+/**
+ * Times one streamed reply. Create it right before sending the request and
+ * call `token()` for every streamed chunk.
+ */
+export class GenerationTimer {
+  private startedAt: number;
+  private firstTokenAt: number | null = null;
+  private lastTokenAt: number | null = null;
+  private tokens = 0;
+
+  constructor(now = performance.now()) {
+    this.startedAt = now;
+  }
+
+  token(now = performance.now()): void {
+    this.firstTokenAt ??= now;
+    this.lastTokenAt = now;
+    this.tokens++;
+  }
+
+  finish(finishReason: FinishReason, reported: ReportedStats = {}): GenerationStats {
+    const measured: GenerationStats = {
+      promptTokens: null,
+      completionTokens: this.tokens,
+      timeToFirstToken: this.firstTokenAt === null ? null : (this.firstTokenAt - this.startedAt) / 1000,
+      tokensPerSecond: null,
+      finishReason
+    };
+    if (this.firstTokenAt !== null && this.lastTokenAt !== null && this.tokens > 1 && this.lastTokenAt > this.firstTokenAt) {
+      measured.tokensPerSecond = (this.tokens - 1) / ((this.lastTokenAt - this.firstTokenAt) / 1000);
+    }
+
+    // Skip missing or nonsensical figures (some servers send zeros)
+    const stats = { ...measured };
+    if (reported.promptTokens != null && reported.promptTokens >= 0) stats.promptTokens = reported.promptTokens;
+    if (reported.completionTokens != null && reported.completionTokens >= 0) stats.completionTokens = reported.completionTokens;
+    if (reported.timeToFirstToken != null && reported.timeToFirstToken > 0) stats.timeToFirstToken = reported.timeToFirstToken;
+    if (reported.tokensPerSecond != null && reported.tokensPerSecond > 0) stats.tokensPerSecond = reported.tokensPerSecond;
+    if (reported.prefillTokensPerSecond != null && reported.prefillTokensPerSecond > 0) {
+      stats.prefillTokensPerSecond = reported.prefillTokensPerSecond;
+    }
+    return stats;
+  }
+}
+
+/**
+ * Stats for a reply extended with "Continue": token counts add up, while the
+ * prompt, timing and finish reason are those of the latest part.
+ */
+export function mergeContinuationStats(previous: GenerationStats | undefined, next: GenerationStats): GenerationStats {
+  if (!previous) return next;
+  return { ...next, completionTokens: previous.completionTokens + next.completionTokens };
+}
+
+/**
+ * Maps an OpenAI-style `finish_reason` to ours. Anything else (tool calls,
+ * content filters) counts as a normal stop.
+ */
+export function toFinishReason(reason: string | null | undefined): FinishReason {
+  if (reason === 'length') return 'length';
+  if (reason === 'abort') return 'abort';
+  return 'stop';
+}
+
+/**
+ * One line for the message footer and exports, e.g.
+ * "412 → 128 tokens · 23.4 tok/s · 0.8s to first token".
+ */
+export function formatGenerationStats(stats: GenerationStats): string {
+  const parts = [
+    stats.promptTokens !== null
+      ? `${stats.promptTokens} → ${stats.completionTokens} tokens`
+      : `${stats.completionTokens} tokens`
+  ];
+  if (stats.tokensPerSecond !== null) parts.push(`${stats.tokensPerSecond.toFixed(1)} tok/s`);
+  if (stats.timeToFirstToken !== null) parts.push(`${stats.timeToFirstToken.toFixed(1)}s to first token`);
+  if (stats.finishReason === 'length') parts.push('hit the token limit');
+  if (stats.finishReason === 'abort') parts.push('stopped');
+  return parts.join(' · ');
+}
@@ -16,61 +16,151 @@ export interface DeviceInfo {
   screenSize: 'small' | 'medium' | 'large';
 }
 
+/**
+ * How far a detected value can be trusted:
+ * - high: entered by the user (manual override)
+ * - medium: reported by the browser, rounded
+ * - low: only a lower bound or a default; never rules a model out on its own
+ */
+export type DetectionConfidence = 'high' | 'medium' | 'low';
+
 export interface HardwareInfo {
   memory: number; // System RAM in GB
+  memoryConfidence: DetectionConfidence;
   cores: number; // CPU cores
   hasWebGPU: boolean;
+  // WebGPU 'shader-f16' feature, needed by q4f16 model builds
+  supportsShaderF16: boolean;
   backend: 'webgpu' | 'webgl' | 'wasm';
   gpuInfo?: {
     name: string;
     vram?: number; // VRAM in GB
+    vramConfidence: DetectionConfidence;
+    // Can bind 1GB storage buffers, which every full-size model needs
     isHighPerformance: boolean;
+    /** Adapter limits in bytes */
+    maxBufferSize: number;
+    maxStorageBufferBindingSize: number;
+    /** WebGPU features the adapter supports */
+    features: string[];
   };
   cpuInfo?: {
     name?: string;
     architecture?: string;
   };
-  recommendedModel: 'tiny' | 'small' | 'medium' | 'large' | 'xl' | 'xxl';
+  recommendedModel: 'tiny' | 'small' | 'medium' | 'large' | 'xl';
   deviceType: 'mobile' | 'desktop' | 'unknown';
   deviceInfo: DeviceInfo;
+  // Memory values come (partly) from the user's override
+  isOverridden: boolean;
+}
+
+/**
+ * Values the user entered because detection got them wrong (null = use detected).
+ */
+export interface HardwareOverride {
+  memoryGB: number | null;
+  vramGB: number | null;
 }
 
-// Helper function to get more accurate system memory
-function getSystemMemory(): number {
-  // Try to get device memory from navigator
-  let detectedMemory = 4; // Default fallback
+/**
+ * What model compatibility checks need to know about the device.
+ */
+export interface DeviceResources {
+  memoryGB: number;
+  memoryConfidence: DetectionConfidence;
+  vramGB?: number;
+  vramConfidence?: DetectionConfidence;
+  maxStorageBufferBindingSize?: number;
+  supportsShaderF16: boolean;
+  isMobile: boolean;
+}
+
+const GB = 1024 ** 3;
+// Storage binding WebLLM asks for; below this only low-resource builds load
+export const FULL_MODEL_STORAGE_BINDING = GB;
 
-  if ('deviceMemory' in navigator) {
-    detectedMemory = (navigator as any).deviceMemory || 4;
+// navigator.deviceMemory is rounded down to a power of two and capped at 8
+// (Chromium only), so 8 means "8 or more"
+function getSystemMemory(): { memory: number; confidence: DetectionConfidence } {
+  const reported = (navigator as any).deviceMemory;
+  if (typeof reported !== 'number' || reported <= 0) {
+    return { memory: 4, confidence: 'low' }; // Default fallback
   }
+  return { memory: reported, confidence: reported >= 8 ? 'low' : 'medium' };
+}
 
-  // Enhanced heuristics based on other system indicators
-  const cores = navigator.hardwareConcurrency || 4;
-  const isMobile = /Mobi|Android/i.test(navigator.userAgent);
-  const isDesktop = !isMobile;
+// WebGPU does not expose VRAM. The adapter can hold its largest single buffer,
+// so that is a lower bound; browsers that hide their limits report the spec
+// defaults (256MB), which says nothing at all.
+function estimateVram(maxBufferSize: number, maxStorageBufferBindingSize: number): number {
+  const largest = Math.max(maxBufferSize, maxStorageBufferBindingSize);
+  return Math.round((largest / GB) * 10) / 10;
+}
 
-  // If we have high core count, likely more RAM than reported
-  if (isDesktop && cores >= 8) {
-    // Modern desktop with 8+ cores likely has 16-32GB+ RAM
-    detectedMemory = Math.max(detectedMemory, 16);
+// Pick a model tier from what is known; lower bounds count at face value
+function recommendTier(info: HardwareInfo): HardwareInfo['recommendedModel'] {
+  const { memory, backend, deviceInfo, gpuInfo } = info;
 
-    // High-end desktop indicators
-    if (cores >= 12) {
-      detectedMemory = Math.max(detectedMemory, 32);
-    }
-  } else if (isDesktop && cores >= 6) {
-    // Mid-range desktop with 6+ cores likely has 8-16GB RAM
-    detectedMemory = Math.max(detectedMemory, 12);
+  if (deviceInfo.type === 'mobile' || deviceInfo.screenSize === 'small') {
+    // Mobile devices - recommend smaller, efficient models
+    if (memory >= 12) return 'medium'; // High-end phones (iPhone Pro, Galaxy S24)
+    return memory >= 8 ? 'small' : 'tiny';
+  }
+  if (backend === 'wasm') {
+    // CPU-only mode - recommend smallest model
+    return 'tiny';
+  }
+  if (backend === 'webgl' || !gpuInfo) {
+    // WebGL mode (iOS Safari, older browsers)
+    if (memory >= 16) return 'medium';
+    return memory >= 8 ? 'small' : 'tiny';
+  }
+  if (!gpuInfo.isHighPerformance) {
+    // Only low-resource builds fit the GPU's buffer limits
+    return memory >= 8 ? 'small' : 'tiny';
+  }
+  // RAM the browser reported as small really is small
+  if (info.memoryConfidence !== 'low' && memory < 8) {
+    return memory >= 6 ? 'medium' : 'small';
   }
 
-  // Check for high-performance indicators
-  const userAgent = navigator.userAgent.toLowerCase();
-  if (userAgent.includes('windows nt') && cores >= 8) {
-    // Windows desktop with many cores
-    detectedMemory = Math.max(detectedMemory, 16);
+  const vram = gpuInfo.vram ?? 0;
+  if (vram >= 8) return 'xl'; // 8B models
+  if (vram >= 4) return 'large'; // 7B models
+  return vram >= 2 ? 'medium' : 'small';
+}
+
+/**
+ * Replaces detected memory values with the user's own and re-derives the recommendation.
+ */
+export function applyHardwareOverride(info: HardwareInfo, override: HardwareOverride): HardwareInfo {
+  if (override.memoryGB === null && (override.vramGB === null || !info.gpuInfo)) {
+    return info;
   }
+  const result: HardwareInfo = {
+    ...info,
+    isOverridden: true,
+    ...(override.memoryGB !== null && { memory: override.memoryGB, memoryConfidence: 'high' as const }),
+    gpuInfo: info.gpuInfo && override.vramGB !== null
+      ? { ...info.gpuInfo, vram: override.vramGB, vramConfidence: 'high' }
+      : info.gpuInfo
+  };
+  result.recommendedModel = recommendTier(result);
+  return result;
+}
 
-  return detectedMemory;
+// Inputs for isModelCompatible (lib/model-config)
+export function getDeviceResources(info: HardwareInfo): DeviceResources {
+  return {
+    memoryGB: info.memory,
+    memoryConfidence: info.memoryConfidence,
+    vramGB: info.gpuInfo?.vram,
+    vramConfidence: info.gpuInfo?.vramConfidence,
+    maxStorageBufferBindingSize: info.gpuInfo?.maxStorageBufferBindingSize,
+    supportsShaderF16: info.supportsShaderF16,
+    isMobile: info.deviceInfo.type === 'mobile' || info.deviceInfo.type === 'tablet'
+  };
 }
 
 // Helper function to detect device type (legacy, kept for compatibility)
@@ -152,6 +242,16 @@ export function detectDeviceInfo(): DeviceInfo {
   return { type, os, browser, isTouchDevice, screenSize };
 }
 
+/**
+ * The WebGPU adapter WebLLM will run on (it asks for high performance), or
+ * null without WebGPU. Probes go through here so they all see the same GPU.
+ */
+export async function requestGpuAdapter(): Promise<any | null> {
+  const gpu = (navigator as any).gpu;
+  if (!gpu) return null;
+  return (await gpu.requestAdapter({ powerPreference: 'high-performance' })) ?? null;
+}
+
 // Detect best available backend for AI inference
 async function detectBackend(): Promise<'webgpu' | 'webgl' | 'wasm'> {
   // Special handling for iOS - WebGPU is experimental
@@ -164,7 +264,7 @@ async function detectBackend(): Promise<'webgpu' | 'webgl' | 'wasm'> {
   // Note: iOS 17+ supports WebGPU but it may be experimental
   if ('gpu' in navigator && !isIOS) {
     try {
-      const adapter = await (navigator as any).gpu.requestAdapter();
+      const adapter = await requestGpuAdapter();
       if (adapter) {
         log.info('[Hardware] WebGPU available');
         return 'webgpu';
@@ -198,15 +298,33 @@ async function detectBackend(): Promise<'webgpu' | 'webgl' | 'wasm'> {
   return 'wasm';
 }
 
+// Display name: adapter info, else the WebGL renderer string
+function getGpuName(adapterInfo: any): string {
+  const fromAdapter = adapterInfo?.description ||
+    [adapterInfo?.vendor, adapterInfo?.architecture].filter(Boolean).join(' ');
+  if (fromAdapter) return fromAdapter;
+  try {
+    const canvas = document.createElement('canvas');
+    const gl = canvas.getContext('webgl') || canvas.getContext('experimental-webgl') as WebGLRenderingContext;
+    const debugInfo = gl?.getExtension('WEBGL_debug_renderer_info');
+    const renderer = debugInfo && gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL);
+    if (renderer && typeof renderer === 'string') return renderer;
+  } catch {
+    // Renderer info blocked (privacy settings)
+  }
+  return 'Unknown GPU';
+}
+
 export async function detectHardware(): Promise<HardwareInfo> {
   let memory = 4; // Safe default
+  let memoryConfidence: DetectionConfidence = 'low';
   let hardwareConcurrency = 4; // Safe default
   let deviceType: 'mobile' | 'desktop' | 'unknown' = 'unknown';
   let deviceInfo: DeviceInfo;
   let backend: 'webgpu' | 'webgl' | 'wasm' = 'wasm'; // Safe default
 
   try {
-    memory = getSystemMemory();
+    ({ memory, confidence: memoryConfidence } = getSystemMemory());
     hardwareConcurrency = navigator.hardwareConcurrency || 4;
     deviceType = detectDeviceType();
     deviceInfo = detectDeviceInfo();
@@ -232,124 +350,39 @@ export async function detectHardware(): Promise<HardwareInfo> {
   // Default values
   const result: HardwareInfo = {
     memory,
+    memoryConfidence,
     cores: hardwareConcurrency,
-    hasWebGPU: backend === 'webgpu',
+    // Only an adapter from the query below proves WebGPU, on every platform
+    hasWebGPU: false,
+    supportsShaderF16: false,
     backend,
     recommendedModel: 'medium',
     deviceType,
-    deviceInfo
+    deviceInfo,
+    isOverridden: false
   };
 
-  // Try to detect WebGPU and GPU information
+  // Read the limits and features of the adapter WebLLM will use
   try {
-    if ('gpu' in navigator) {
-      const gpu = (navigator as any).gpu;
-      if (gpu) {
-        try {
-          const adapter = await gpu.requestAdapter();
-          if (adapter) {
-            result.hasWebGPU = true;
-            
-            // Get GPU info
-            const adapterInfo = await adapter.requestAdapterInfo?.();
-            let gpuName = adapterInfo?.description || 'Unknown GPU';
-            let vramEstimate = 4; // Default VRAM estimate
-            let isHighPerformance = false;
-
-            // Enhanced GPU detection using renderer info
-            try {
-              const canvas = document.createElement('canvas');
-              const gl = canvas.getContext('webgl') || canvas.getContext('experimental-webgl') as WebGLRenderingContext;
-              if (gl) {
-                const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
-                if (debugInfo) {
-                  const renderer = gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL);
-                  if (renderer && typeof renderer === 'string') {
-                    gpuName = renderer;
-
-                    // Better GPU detection based on actual names
-                    const gpuLower = renderer.toLowerCase();
-
-                    // NVIDIA RTX detection
-                    if (gpuLower.includes('rtx') || gpuLower.includes('geforce rtx')) {
-                      isHighPerformance = true;
-                      if (gpuLower.includes('3090')) {
-                        vramEstimate = 24; // RTX 3090 has 24GB
-                      } else if (gpuLower.includes('3080')) {
-                        vramEstimate = 10; // RTX 3080 has 10GB
-                      } else if (gpuLower.includes('3070')) {
-                        vramEstimate = 8;
-                      } else if (gpuLower.includes('3060')) {
-                        vramEstimate = 12;
-                      } else if (gpuLower.includes('4080') || gpuLower.includes('4090')) {
-                        vramEstimate = 16;
-                      } else if (gpuLower.includes('4070')) {
-                        vramEstimate = 12;
-                      } else {
-                        vramEstimate = 8; // Other RTX cards
-                      }
-                    }
-                    // NVIDIA GTX detection
-                    else if (gpuLower.includes('gtx') || gpuLower.includes('geforce gtx')) {
-                      isHighPerformance = true;
-                      if (gpuLower.includes('1080') || gpuLower.includes('1070')) {
-                        vramEstimate = 8;
-                      } else if (gpuLower.includes('1060')) {
-                        vramEstimate = 6;
-                      } else {
-                        vramEstimate = 4;
-                      }
-                    }
-                    // AMD detection
-                    else if (gpuLower.includes('radeon') || gpuLower.includes('amd')) {
-                      isHighPerformance = true;
-                      if (gpuLower.includes('rx 6800') || gpuLower.includes('rx 6900')) {
-                        vramEstimate = 16;
-                      } else if (gpuLower.includes('rx 6700') || gpuLower.includes('rx 7700')) {
-                        vramEstimate = 12;
-                      } else {
-                        vramEstimate = 8;
-                      }
-                    }
-                    // Intel Arc detection
-                    else if (gpuLower.includes('arc') || gpuLower.includes('intel')) {
-                      if (gpuLower.includes('a770')) {
-                        isHighPerformance = true;
-                        vramEstimate = 16;
-                      } else if (gpuLower.includes('a750')) {
-                        isHighPerformance = true;
-                        vramEstimate = 8;
-                      }
-                    }
-                  }
-                }
-              }
-            } catch {
-              // Error getting detailed GPU info
-            }
-
-            // Fallback to adapter limits if we couldn't get specific GPU info
-            if (adapter.limits && !isHighPerformance) {
-              const maxTextureSize = adapter.limits.maxTextureDimension2D;
-              const maxBufferSize = adapter.limits.maxBufferSize;
-
-              // High-end GPU indicators
-              if (maxTextureSize >= 16384 && maxBufferSize >= 2**30) {
-                isHighPerformance = true;
-                vramEstimate = Math.max(vramEstimate, 8);
-              }
-            }
-
-            result.gpuInfo = {
-              name: gpuName,
-              vram: vramEstimate,
-              isHighPerformance: isHighPerformance
-            };
-          }
-        } catch {
-          // Error getting GPU info
-        }
-      }
+    const adapter = await requestGpuAdapter();
+    if (adapter) {
+      result.hasWebGPU = true;
+      const features: string[] = Array.from(adapter.features ?? []);
+      result.supportsShaderF16 = features.includes('shader-f16');
+
+      const adapterInfo = adapter.info ?? await adapter.requestAdapterInfo?.();
+      const maxBufferSize: number = adapter.limits?.maxBufferSize ?? 0;
+      const maxStorageBufferBindingSize: number = adapter.limits?.maxStorageBufferBindingSize ?? 0;
+
+      result.gpuInfo = {
+        name: getGpuName(adapterInfo),
+        vram: estimateVram(maxBufferSize, maxStorageBufferBindingSize),
+        vramConfidence: 'low',
+        isHighPerformance: maxStorageBufferBindingSize >= FULL_MODEL_STORAGE_BINDING,
+        maxBufferSize,
+        maxStorageBufferBindingSize,
+        features
+      };
     }
   } catch {
     // Error initializing WebGPU
@@ -367,61 +400,24 @@ export async function detectHardware(): Promise<HardwareInfo> {
     // Error getting CPU info
   }
 
-  // Recommend model based on capabilities (NEW 6-tier system)
-  // Enhanced recommendations considering device type and backend
-  if (deviceInfo.type === 'mobile' || deviceInfo.screenSize === 'small') {
-    // Mobile devices - recommend smaller, efficient models
-    if (memory >= 12) {
-      result.recommendedModel = 'medium'; // High-end phones (iPhone Pro, Galaxy S24)
-    } else if (memory >= 8) {
-      result.recommendedModel = 'small'; // Mid-range phones
-    } else {
-      result.recommendedModel = 'tiny'; // Budget phones
-    }
-  } else if (backend === 'wasm') {
-    // CPU-only mode - recommend smallest model
-    result.recommendedModel = 'tiny';
-  } else if (backend === 'webgl') {
-    // WebGL mode (iOS Safari, older browsers)
-    if (memory >= 16) {
-      result.recommendedModel = 'medium';
-    } else if (memory >= 8) {
-      result.recommendedModel = 'small';
-    } else {
-      result.recommendedModel = 'tiny';
-    }
-  } else if (result.gpuInfo?.isHighPerformance && memory >= 32 && hardwareConcurrency >= 12) {
-    // Enthusiast-level system: RTX 4090/3090, 32GB+ RAM, 12+ cores
-    result.recommendedModel = 'xxl'; // Phi-3 Medium 14B
-  } else if (result.gpuInfo?.isHighPerformance && memory >= 24 && hardwareConcurrency >= 8) {
-    // High-end workstation: RTX 4080/3080, 24GB+ RAM, 8+ cores
-    result.recommendedModel = 'xl'; // 8B models
-  } else if (result.gpuInfo?.isHighPerformance && memory >= 16) {
-    // High-end desktop with dedicated GPU
-    result.recommendedModel = 'large'; // 7B models
-  } else if (result.gpuInfo?.isHighPerformance && memory >= 12) {
-    // Mid-range gaming PC
-    result.recommendedModel = 'medium'; // 3-4B models
-  } else if (memory >= 8) {
-    // Standard laptop/desktop
-    result.recommendedModel = 'small'; // 1.5-2B models
-  } else {
-    // Budget devices
-    result.recommendedModel = 'tiny'; // 0.5-1B models
-  }
+  // A measured benchmark (lib/benchmark) replaces this guess in the model selector
+  result.recommendedModel = recommendTier(result);
 
   // Log final hardware detection results
   log.info('[Hardware] Detection complete:', {
     deviceType: deviceInfo.type,
     os: deviceInfo.os,
     browser: deviceInfo.browser,
-    memory: `${memory}GB`,
+    memory: `${memory}GB (${memoryConfidence} confidence)`,
     cores: hardwareConcurrency,
     backend: backend,
     hasWebGPU: result.hasWebGPU,
+    shaderF16: result.supportsShaderF16,
+    maxBufferSize: result.gpuInfo?.maxBufferSize,
+    maxStorageBufferBindingSize: result.gpuInfo?.maxStorageBufferBindingSize,
     recommendedModel: result.recommendedModel,
     gpu: result.gpuInfo?.name
   });
 
   return result;
-}
\ No newline at end of file
+}
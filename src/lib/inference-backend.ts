@@ -0,0 +1,85 @@
+// Inference Backend Interface
+// The chat UI talks to a backend through this interface so the model can run
+// in the browser (WebLLM) or on a server the user runs on their own machine
+// (any OpenAI-compatible endpoint such as llama.cpp or Ollama).
+// A scripted mock stands in for WebLLM during development.
+
+import type { ModelConfig } from './model-config';
+import type { ChatMessage } from './webllm-service';
+import type { GenerationSettings } from './generation-settings';
+import type { DownloadProgress } from './download-progress';
+import type { GenerationStats } from './generation-stats';
+
+export type BackendKind = 'webllm' | 'openai-compatible' | 'mock';
+
+/**
+ * What a backend can do; the UI adapts to these flags.
+ */
+export interface BackendCapabilities {
+  /** Inference runs inside this browser tab (nothing leaves the device) */
+  inBrowser: boolean;
+  /** Models are downloaded and cached by the browser before use */
+  requiresDownload: boolean;
+  /** getTokenCount uses the model's real tokenizer (not an estimate) */
+  exactTokenCount: boolean;
+}
+
+/**
+ * Options for a single generateResponse call.
+ */
+export interface GenerateOptions {
+  /** Invoked for each generated token (streaming) */
+  onToken?: (token: string) => void;
+  /** System prompt prepended to the conversation */
+  systemInstruction?: string;
+  /** Sampling parameters; missing fields fall back to the defaults */
+  settings?: Partial<GenerationSettings>;
+  /** Invoked once when the reply ends (finished, truncated or cancelled) */
+  onStats?: (stats: GenerationStats) => void;
+}
+
+/**
+ * Load progress as 0-100 plus a status line; backends that download weights
+ * also report byte counts.
+ */
+export type LoadProgressCallback = (progress: number, status: string, download?: DownloadProgress) => void;
+
+export interface InferenceBackend {
+  readonly kind: BackendKind;
+
+  /** Describes what this backend supports */
+  getCapabilities(): BackendCapabilities;
+
+  /**
+   * Loads (or connects to) a model, reporting progress as 0-100 plus a status line.
+   */
+  initializeModel(modelConfig: ModelConfig, onProgress?: LoadProgressCallback): Promise<void>;
+
+  /**
+   * Aborts a load in progress; initializeModel then rejects with CancelledError.
+   * Weights already downloaded stay cached, so the next load resumes from them.
+   */
+  cancelLoad(): void;
+
+  /**
+   * Generates a reply, streaming tokens through `options.onToken`.
+   * Resolves with the full text; a cancelled generation resolves with what was produced so far.
+   */
+  generateResponse(messages: ChatMessage[], options?: GenerateOptions): Promise<string>;
+
+  /** Stops the generation in progress, if any */
+  cancelGeneration(): void;
+
+  /** Counts (or estimates, see capabilities) the tokens in a string */
+  getTokenCount(text: string): Promise<number>;
+
+  isModelLoaded(): boolean;
+
+  getCurrentModel(): string | null;
+
+  /** Releases the loaded model while keeping the backend usable */
+  unloadModel(): Promise<void>;
+
+  /** Releases everything; the backend should not be used afterwards */
+  dispose(): Promise<void>;
+}
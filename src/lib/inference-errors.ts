@@ -0,0 +1,248 @@
+// Inference Errors
+// Typed failures for model loading and generation. Each error carries a
+// stable code, a recovery hint for the user and the actions the UI can offer,
+// so callers branch on `code` instead of parsing message text.
+
+export type InferenceErrorCode =
+  | 'WEBGPU_UNAVAILABLE'
+  | 'OUT_OF_MEMORY'
+  | 'DEVICE_LOST'
+  | 'DOWNLOAD_FAILED'
+  | 'CANCELLED'
+  | 'CONTEXT_OVERFLOW'
+  | 'INPUT_REJECTED'
+  | 'INTEGRITY_FAILED'
+  | 'SERVER_UNREACHABLE'
+  | 'SERVER_ERROR';
+
+/** Recovery steps the UI knows how to perform */
+export type RecoveryAction =
+  | 'retry'
+  | 'reload-model'
+  | 'choose-model'
+  | 'clear-chat';
+
+export type InferencePhase = 'load' | 'generate';
+
+export class InferenceError extends Error {
+  readonly code: InferenceErrorCode;
+  /** What the user can do about it, in one or two sentences */
+  readonly hint: string;
+  /** Recovery actions to offer, most useful first */
+  readonly actions: RecoveryAction[];
+
+  constructor(code: InferenceErrorCode, message: string, hint: string, actions: RecoveryAction[], cause?: unknown) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = 'InferenceError';
+    this.code = code;
+    this.hint = hint;
+    this.actions = actions;
+  }
+}
+
+export class WebGPUUnavailableError extends InferenceError {
+  constructor(hint = 'Use a recent Chrome or Edge on desktop with hardware acceleration enabled, or pick a smaller model.', cause?: unknown) {
+    super('WEBGPU_UNAVAILABLE', 'GPU acceleration is not available in this browser.', hint, ['choose-model'], cause);
+    this.name = 'WebGPUUnavailableError';
+  }
+}
+
+export class OutOfMemoryError extends InferenceError {
+  constructor(hint = 'Close other tabs and apps, or pick a smaller model from the Tiny category.', cause?: unknown) {
+    super('OUT_OF_MEMORY', 'Out of memory. This model is too large for your device right now.', hint, ['choose-model', 'retry'], cause);
+    this.name = 'OutOfMemoryError';
+  }
+}
+
+export class DeviceLostError extends InferenceError {
+  constructor(cause?: unknown) {
+    super(
+      'DEVICE_LOST',
+      'The GPU stopped responding, usually because it ran out of memory.',
+      'Reload the model to continue. If it keeps happening, clear the chat or pick a smaller model.',
+      ['reload-model', 'clear-chat', 'choose-model'],
+      cause
+    );
+    this.name = 'DeviceLostError';
+  }
+}
+
+export class DownloadFailedError extends InferenceError {
+  constructor(detail = 'The model files could not be downloaded.', cause?: unknown) {
+    super('DOWNLOAD_FAILED', detail, 'Check your internet connection and try again. Files already downloaded are kept.', ['retry'], cause);
+    this.name = 'DownloadFailedError';
+  }
+}
+
+export class CancelledError extends InferenceError {
+  constructor(what = 'Operation', cause?: unknown) {
+    super('CANCELLED', `${what} was cancelled.`, '', [], cause);
+    this.name = 'CancelledError';
+  }
+}
+
+export class ContextOverflowError extends InferenceError {
+  constructor(contextWindow?: number, cause?: unknown) {
+    super(
+      'CONTEXT_OVERFLOW',
+      contextWindow
+        ? `This message is too long for the model's ${contextWindow.toLocaleString()}-token context window.`
+        : 'This message is too long for the model\'s context window.',
+      'Shorten it, shorten the custom instructions, or lower "Max tokens" in settings.',
+      [],
+      cause
+    );
+    this.name = 'ContextOverflowError';
+  }
+}
+
+export class InputRejectedError extends InferenceError {
+  constructor(reason: string) {
+    super('INPUT_REJECTED', reason, 'Shorten or edit the message and send it again.', []);
+    this.name = 'InputRejectedError';
+  }
+}
+
+export class IntegrityError extends InferenceError {
+  /** Files whose SHA-256 did not match the pinned digest (already deleted from the cache) */
+  readonly files: string[];
+
+  constructor(files: string[]) {
+    super(
+      'INTEGRITY_FAILED',
+      `Model files failed verification: ${files.join(', ')}`,
+      'The files were deleted. Retry to download them again; if it keeps failing, the download source may have been tampered with.',
+      ['retry', 'choose-model']
+    );
+    this.name = 'IntegrityError';
+    this.files = files;
+  }
+}
+
+export class UnverifiedFilesError extends InferenceError {
+  /** Pinned files whose digest could not be checked */
+  readonly files: string[];
+
+  constructor(
+    files: string[],
+    hint = 'They were not in the browser cache, where pinned digests are checked, so the model was not loaded. Retry to download them again.',
+    actions: RecoveryAction[] = ['retry', 'choose-model']
+  ) {
+    super('INTEGRITY_FAILED', `Model files could not be verified: ${files.join(', ')}`, hint, actions);
+    this.name = 'UnverifiedFilesError';
+    this.files = files;
+  }
+}
+
+export class UnpinnedBuildError extends InferenceError {
+  constructor(buildId: string) {
+    super(
+      'INTEGRITY_FAILED',
+      `No SHA-256 digests are pinned for ${buildId}, so it was not loaded.`,
+      'The model pins digests for its other builds only. Choose another model, or add digests for this build.',
+      ['choose-model']
+    );
+    this.name = 'UnpinnedBuildError';
+  }
+}
+
+export class ServerUnreachableError extends InferenceError {
+  constructor(baseUrl: string, cause?: unknown) {
+    super(
+      'SERVER_UNREACHABLE',
+      `Could not reach the local server at ${baseUrl}.`,
+      'Check that the server is running and allows requests from this page (CORS), then try again.',
+      ['retry', 'choose-model'],
+      cause
+    );
+    this.name = 'ServerUnreachableError';
+  }
+}
+
+export class ServerError extends InferenceError {
+  /** HTTP status, or null for an error sent inside the stream */
+  readonly status: number | null;
+
+  constructor(detail: string, status: number | null = null, cause?: unknown) {
+    super(
+      'SERVER_ERROR',
+      `The local server reported an error: ${detail}`,
+      'Check the server\'s log. Retry, or pick another model.',
+      ['retry', 'choose-model'],
+      cause
+    );
+    this.name = 'ServerError';
+    this.status = status;
+  }
+}
+
+export const isInferenceError = (error: unknown): error is InferenceError =>
+  error instanceof InferenceError;
+
+// Errors from fetch itself (Chrome, Firefox, Safari) rather than any message mentioning "fetch"
+const FETCH_FAILURE_MESSAGES = ['Failed to fetch', 'NetworkError when attempting to fetch resource.', 'Load failed'];
+// WebLLM's artifact cache wraps failed downloads in these
+const WEBLLM_DOWNLOAD_PREFIXES = ['Cannot fetch ', 'ArtifactIndexedDBCache failed to fetch', 'Network response was not ok'];
+// Signatures of a lost or destroyed WebGPU device mid-generation
+const DEVICE_LOST_SIGNATURES = ['Instance reference no longer exists', 'Device was lost', 'GPUDeviceLostInfo'];
+
+// WebLLM in a Web Worker forwards errors as "Name: message" strings
+const errorName = (error: unknown): string => {
+  if (typeof error === 'object' && error !== null && 'name' in error) {
+    return String(error.name);
+  }
+  const match = typeof error === 'string' ? /^(\w+Error): /.exec(error) : null;
+  return match ? match[1] : '';
+};
+
+const errorText = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Maps an error thrown by the engine (WebLLM, WebGPU, fetch) to a typed
+ * InferenceError using its class name or a known exact signature.
+ *
+ * @returns The typed error, or null if the failure is not one we recognise
+ */
+export function classifyEngineError(error: unknown, phase: InferencePhase): InferenceError | null {
+  if (isInferenceError(error)) {
+    return error;
+  }
+
+  const name = errorName(error);
+  const text = errorText(error);
+
+  switch (name) {
+    case 'WebGPUNotAvailableError':
+    case 'WebGPUNotFoundError':
+    case 'FeatureSupportError':
+    case 'ShaderF16SupportError':
+      return new WebGPUUnavailableError(undefined, error);
+    case 'DeviceLostError':
+      // WebLLM allocates everything while loading, so a loss there means OOM
+      return phase === 'load' ? new OutOfMemoryError(undefined, error) : new DeviceLostError(error);
+    case 'ContextWindowSizeExceededError':
+      return new ContextOverflowError(undefined, error);
+    case 'AbortError':
+      return new CancelledError(phase === 'load' ? 'Model loading' : 'Generation', error);
+    case 'QuotaExceededError':
+      return new DownloadFailedError('Browser storage is full, so the model files could not be saved.', error);
+  }
+
+  if (error instanceof TypeError && FETCH_FAILURE_MESSAGES.includes(text)) {
+    return new DownloadFailedError(undefined, error);
+  }
+  if (WEBLLM_DOWNLOAD_PREFIXES.some(prefix => text.startsWith(prefix))) {
+    return new DownloadFailedError(undefined, error);
+  }
+  if (DEVICE_LOST_SIGNATURES.some(signature => text.includes(signature)) || name === 'OperationError') {
+    return phase === 'load' ? new OutOfMemoryError(undefined, error) : new DeviceLostError(error);
+  }
+  // WASM heap or ArrayBuffer allocation failures
+  if ((name === 'RangeError' && text.startsWith('Array buffer allocation failed')) ||
+      (name === 'RuntimeError' && text.includes('Out of memory'))) {
+    return new OutOfMemoryError(undefined, error);
+  }
+
+  return null;
+}
@@ -0,0 +1,283 @@
+// Mock Inference Backend (development only)
+// Implements the same surface as WebLLMService without weights or WebGPU:
+// scripted token streams, configurable latency, simulated load progress and
+// injectable failures. Enabled with VITE_MOCK_BACKEND=true under `npm run dev`.
+
+import type { ModelConfig } from './model-config';
+import type { ChatMessage } from './webllm-service';
+import type { BackendCapabilities, GenerateOptions, InferenceBackend, LoadProgressCallback } from './inference-backend';
+import { normalizeGenerationSettings } from './generation-settings';
+import { GenerationTimer } from './generation-stats';
+import { CancelledError, DeviceLostError, DownloadFailedError, OutOfMemoryError, type InferenceError } from './inference-errors';
+
+// Development-only logging
+const log = {
+  info: (...args: unknown[]) => import.meta.env.DEV && console.log(...args),
+  warn: (...args: unknown[]) => import.meta.env.DEV && console.warn(...args),
+  error: (...args: unknown[]) => console.error(...args) // Always log errors
+};
+
+export const isMockBackendEnabled = (): boolean =>
+  import.meta.env.DEV && import.meta.env.VITE_MOCK_BACKEND === 'true';
+
+export type MockFailure = 'gpu-lost' | 'oom' | 'network';
+export type MockPhase = 'load' | 'generate';
+
+// Same errors WebLLMService throws for these conditions
+const createFailure = (failure: MockFailure): InferenceError => {
+  switch (failure) {
+    case 'gpu-lost': return new DeviceLostError();
+    case 'oom': return new OutOfMemoryError();
+    case 'network': return new DownloadFailedError();
+  }
+};
+
+export interface MockBackendOptions {
+  /** Delay between streamed tokens */
+  tokenDelayMs: number;
+  /** Total time the simulated model load takes */
+  loadDurationMs: number;
+  /** Number of progress reports during a load */
+  loadSteps: number;
+  /** Simulated size of the model download */
+  downloadBytes: number;
+  /**
+   * Produces the reply for a prompt. Defaults to a deterministic echo of the
+   * last user message, so identical prompts always stream identical tokens.
+   */
+  respond: (messages: ChatMessage[], systemInstruction?: string) => string;
+}
+
+const defaultRespond = (messages: ChatMessage[]): string => {
+  const lastUser = [...messages].reverse().find(msg => msg.role === 'user');
+  const turn = messages.filter(msg => msg.role === 'user').length;
+  return lastUser
+    ? `Mock reply #${turn}. You said: "${lastUser.content}"`
+    : 'Mock reply. There was no user message in the prompt.';
+};
+
+const DEFAULT_OPTIONS: MockBackendOptions = {
+  tokenDelayMs: 30,
+  loadDurationMs: 1500,
+  loadSteps: 10,
+  downloadBytes: 512 * 1024 * 1024,
+  respond: defaultRespond
+};
+
+/**
+ * Splits text into tokens the way a streaming model would emit them:
+ * words with their leading whitespace.
+ */
+export const tokenizeMock = (text: string): string[] => text.match(/\s*\S+|\s+$/g) ?? [];
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (ms <= 0 || signal.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+export class MockBackend implements InferenceBackend {
+  readonly kind = 'mock' as const;
+  private options: MockBackendOptions;
+  private currentModel: string | null = null;
+  private abortController: AbortController | null = null;
+  private loadController: AbortController | null = null;
+  // Load steps already "downloaded" per model, so a cancelled load resumes
+  private downloadedSteps = new Map<string, number>();
+  private failures: Record<MockPhase, MockFailure[]> = { load: [], generate: [] };
+  private scriptedReplies: string[] = [];
+
+  constructor(options: Partial<MockBackendOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /** Changes latency, load timing or the reply function */
+  configure(options: Partial<MockBackendOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Queues replies returned by the next generateResponse calls, in order,
+   * before falling back to `respond`.
+   */
+  scriptReplies(...replies: string[]): void {
+    this.scriptedReplies.push(...replies);
+  }
+
+  /**
+   * Makes the next load or generation fail with `failure`. Calls queue up,
+   * so several failures can be injected in a row.
+   */
+  failNext(phase: MockPhase, failure: MockFailure): void {
+    this.failures[phase].push(failure);
+  }
+
+  /** Drops queued replies, failures and simulated downloads */
+  reset(): void {
+    this.scriptedReplies = [];
+    this.failures = { load: [], generate: [] };
+    this.downloadedSteps.clear();
+  }
+
+  getCapabilities(): BackendCapabilities {
+    return {
+      inBrowser: true,
+      requiresDownload: false,
+      exactTokenCount: true
+    };
+  }
+
+  async initializeModel(
+    modelConfig: ModelConfig,
+    onProgress?: LoadProgressCallback
+  ): Promise<void> {
+    this.cancelGeneration();
+    this.currentModel = null;
+
+    const { loadDurationMs, loadSteps, downloadBytes } = this.options;
+    const steps = Math.max(1, loadSteps);
+    const failure = this.failures.load.shift();
+    const loadController = new AbortController();
+    this.loadController = loadController;
+
+    const resumedSteps = this.downloadedSteps.get(modelConfig.id) ?? 0;
+    const bytesPerSecond = loadDurationMs > 0 ? (downloadBytes / loadDurationMs) * 1000 : null;
+
+    for (let step = resumedSteps + 1; step <= steps; step++) {
+      await sleep(loadDurationMs / steps, loadController.signal);
+      if (loadController.signal.aborted) {
+        this.loadController = null;
+        onProgress?.(0, 'Download paused');
+        throw new CancelledError('Model loading');
+      }
+
+      // Fail halfway through, like a download or allocation that breaks mid-load
+      if (failure && step >= Math.ceil(steps / 2)) {
+        log.warn('[Mock] Injected load failure:', failure);
+        this.loadController = null;
+        const error = createFailure(failure);
+        onProgress?.(0, `Error loading model: ${error.message}`);
+        throw error;
+      }
+
+      this.downloadedSteps.set(modelConfig.id, step);
+      const progress = Math.round((step / steps) * 100);
+      const loadedBytes = Math.round((downloadBytes * step) / steps);
+      onProgress?.(
+        progress,
+        progress < 100 ? `Loading ${modelConfig.name} (mock)... ${progress}%` : 'Model loaded successfully',
+        {
+          phase: 'download',
+          loadedBytes,
+          totalBytes: downloadBytes,
+          resumedBytes: Math.round((downloadBytes * resumedSteps) / steps),
+          bytesPerSecond,
+          etaSeconds: bytesPerSecond ? Math.ceil((downloadBytes - loadedBytes) / bytesPerSecond) : null
+        }
+      );
+    }
+
+    this.loadController = null;
+    this.currentModel = modelConfig.id;
+    log.info('[Mock] Loaded', modelConfig.id);
+  }
+
+  async generateResponse(messages: ChatMessage[], options: GenerateOptions = {}): Promise<string> {
+    if (!this.currentModel) {
+      throw new Error('Model not initialized');
+    }
+
+    const { onToken, onStats, systemInstruction } = options;
+    const settings = normalizeGenerationSettings(options.settings);
+    const failure = this.failures.generate.shift();
+
+    const reply = this.scriptedReplies.shift() ?? this.options.respond(messages, systemInstruction);
+    const allTokens = tokenizeMock(reply);
+    const tokens = allTokens.slice(0, settings.maxTokens);
+    const timer = new GenerationTimer();
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    let fullResponse = '';
+
+    try {
+      for (let i = 0; i < tokens.length; i++) {
+        await sleep(this.options.tokenDelayMs, abortController.signal);
+        if (abortController.signal.aborted) break;
+
+        // Fail after a few tokens so partial output is on screen
+        if (failure && i === Math.min(3, tokens.length - 1)) {
+          if (failure === 'gpu-lost') {
+            this.currentModel = null;
+          }
+          log.warn('[Mock] Injected generation failure:', failure);
+          throw createFailure(failure);
+        }
+
+        fullResponse += tokens[i];
+        timer.token();
+        onToken?.(tokens[i]);
+      }
+
+      const promptTokens = messages.reduce((sum, msg) => sum + tokenizeMock(msg.content).length, 0) +
+        tokenizeMock(systemInstruction ?? '').length;
+      onStats?.(timer.finish(
+        abortController.signal.aborted ? 'abort' : tokens.length < allTokens.length ? 'length' : 'stop',
+        { promptTokens }
+      ));
+      return fullResponse;
+    } finally {
+      this.abortController = null;
+    }
+  }
+
+  cancelLoad(): void {
+    this.loadController?.abort();
+  }
+
+  cancelGeneration(): void {
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+  }
+
+  async getTokenCount(text: string): Promise<number> {
+    return tokenizeMock(text).length;
+  }
+
+  isModelLoaded(): boolean {
+    return this.currentModel !== null;
+  }
+
+  getCurrentModel(): string | null {
+    return this.currentModel;
+  }
+
+  async unloadModel(): Promise<void> {
+    this.cancelGeneration();
+    this.currentModel = null;
+  }
+
+  async dispose(): Promise<void> {
+    await this.unloadModel();
+    this.reset();
+  }
+}
+
+/**
+ * Makes the mock reachable from the dev console as `window.mockBackend`,
+ * e.g. `mockBackend.failNext('generate', 'gpu-lost')`.
+ */
+export function exposeMockBackend(backend: MockBackend): void {
+  if (import.meta.env.DEV) {
+    (window as Window & { mockBackend?: MockBackend }).mockBackend = backend;
+  }
+}
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { verifyModelLibrary, verifyPinnedHashes } from './model-cache';
+import { createCustomModel } from './custom-models';
+import { setCustomModels } from './model-config';
+import { UnpinnedBuildError, UnverifiedFilesError } from './inference-errors';
+
+const DIGEST = 'a'.repeat(64);
+
+const registerModel = (modelLibUrl: string, sha256?: Record<string, string>) => {
+  const model = createCustomModel({
+    id: 'Pinned-1B-q4f32_1-MLC',
+    modelUrl: 'https://huggingface.co/example/Pinned-1B-q4f32_1-MLC',
+    modelLibUrl,
+    vramRequiredMB: 1024,
+    sha256
+  });
+  setCustomModels([model]);
+  return model;
+};
+
+describe('pinned model digests', () => {
+  afterEach(() => {
+    setCustomModels([]);
+  });
+
+  it('refuses a pinned model library that WebLLM would load from localhost', async () => {
+    const model = registerModel('http://localhost:8080/libs/pinned.wasm', { 'pinned.wasm': DIGEST });
+
+    const check = verifyModelLibrary(model.id);
+    await expect(check).rejects.toBeInstanceOf(UnverifiedFilesError);
+    await expect(check).rejects.toMatchObject({ code: 'INTEGRITY_FAILED', files: ['pinned.wasm'] });
+  });
+
+  it('refuses a pinned model library on 127.0.0.1', async () => {
+    const model = registerModel('http://127.0.0.1:8080/libs/pinned.wasm', { 'pinned.wasm': DIGEST });
+
+    await expect(verifyModelLibrary(model.id)).rejects.toBeInstanceOf(UnverifiedFilesError);
+  });
+
+  it('leaves an unpinned localhost library to the engine', async () => {
+    const model = registerModel('http://localhost:8080/libs/pinned.wasm');
+
+    await expect(verifyModelLibrary(model.id)).resolves.toEqual({ mismatched: [], missing: [] });
+  });
+
+  it('counts pinned files it cannot read as missing, not as verified', async () => {
+    // jsdom has no Cache API, so nothing pinned can be checked
+    const model = registerModel('https://huggingface.co/example/libs/pinned.wasm', {
+      'pinned.wasm': DIGEST,
+      'tokenizer.json': DIGEST
+    });
+
+    await expect(verifyPinnedHashes(model.id)).resolves.toEqual({
+      mismatched: [],
+      missing: ['pinned.wasm', 'tokenizer.json']
+    });
+  });
+
+  it('fails closed on a build the model pins no digests for', async () => {
+    const model = registerModel('https://huggingface.co/example/libs/pinned.wasm', { 'pinned.wasm': DIGEST });
+    setCustomModels([{ ...model, sha256: { 'Other-build-q4f16_1-MLC': { 'pinned.wasm': DIGEST } } }]);
+
+    await expect(verifyPinnedHashes(model.id)).rejects.toBeInstanceOf(UnpinnedBuildError);
+  });
+});
@@ -0,0 +1,505 @@
+// Model Cache Manager
+// Lists, measures, verifies, imports and deletes the model files WebLLM keeps
+// in the browser's Cache API ('webllm/model', 'webllm/config', 'webllm/wasm'),
+// checks them against pinned SHA-256 digests, and reports the origin's
+// storage quota. These caches survive the privacy
+// cleanup in SecurityManager and clearAllHistory on purpose.
+
+import * as webllm from '@mlc-ai/web-llm';
+import { findModelBuild, getCatalogModels, getModelVariants } from './model-config';
+import type { ModelConfig } from './model-config';
+import { getAppConfig } from './model-sources';
+import { networkAudit } from './network-audit';
+import { isLoopbackHost, safeJsonParse } from './security';
+import { DownloadFailedError, IntegrityError, UnpinnedBuildError, UnverifiedFilesError } from './inference-errors';
+
+const MODEL_CACHE = 'webllm/model';
+const CONFIG_CACHE = 'webllm/config';
+const WASM_CACHE = 'webllm/wasm';
+// Last-used times live beside the weights so the same cleanup rules keep them
+const USAGE_CACHE = 'webllm/usage';
+
+export interface CachedModel {
+  model: ModelConfig;
+  /** WebLLM id of the cached build (one of the model's quantization variants) */
+  modelId: string;
+  quantization: string | null;
+  /** Bytes on disk: weights, tokenizer, config and WASM library */
+  bytes: number;
+  files: number;
+  /** false if only part of the weights were downloaded */
+  complete: boolean;
+  /** Last successful load in this browser, if recorded */
+  lastUsed: Date | null;
+}
+
+export interface CacheVerification {
+  ok: boolean;
+  checkedFiles: number;
+  /** Files the model needs that are not in the cache */
+  missing: string[];
+  /** Cached files whose size differs from the model's manifest */
+  damaged: string[];
+  /** Files that did not match their pinned SHA-256 and were deleted */
+  tampered: string[];
+  /** The model pins digests, but none for this build, so it will not load */
+  unpinned: boolean;
+}
+
+export interface PinnedHashCheck {
+  /** Files that did not match their pinned SHA-256 (already deleted from the cache) */
+  mismatched: string[];
+  /** Pinned files that were not in the cache, so nothing was checked */
+  missing: string[];
+}
+
+export interface StorageStatus {
+  usage: number | null;
+  quota: number | null;
+  /** Whether the browser promised not to evict this origin's storage */
+  persisted: boolean | null;
+}
+
+/**
+ * A file from a picked or dropped model folder.
+ */
+export interface FolderFile {
+  /** Path inside the folder, e.g. 'params_shard_0.bin' or 'Model-MLC/params_shard_0.bin' */
+  path: string;
+  file: File;
+}
+
+export interface FolderImportResult {
+  files: number;
+  bytes: number;
+  /** false if the folder had no model library and none was cached yet */
+  hasModelLib: boolean;
+}
+
+interface ModelFiles {
+  baseUrl: string;
+  wasmUrl: string;
+}
+
+// Where WebLLM downloads a model from (same rules as its cleanModelUrl)
+const getModelFiles = (modelId: string): ModelFiles | null => {
+  const record = getAppConfig().model_list.find(r => r.model_id === modelId);
+  if (!record) return null;
+  let baseUrl = record.model.endsWith('/') ? record.model : `${record.model}/`;
+  if (!/\/resolve\/.+\//.test(baseUrl)) {
+    baseUrl += 'resolve/main/';
+  }
+  return { baseUrl: new URL(baseUrl).href, wasmUrl: record.model_lib };
+};
+
+const usageKey = (modelId: string): string =>
+  new URL(`/model-usage/${encodeURIComponent(modelId)}`, window.location.origin).href;
+
+// Opens a cache without creating it (caches.open would)
+const openExisting = async (name: string): Promise<Cache | null> =>
+  (await caches.has(name)) ? caches.open(name) : null;
+
+const responseSize = async (response: Response): Promise<number> => {
+  const length = Number(response.headers.get('content-length'));
+  return Number.isFinite(length) && length > 0 ? length : (await response.blob()).size;
+};
+
+const isSupported = (): boolean => typeof caches !== 'undefined';
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const libraryName = (files: ModelFiles): string => files.wasmUrl.split('/').pop() ?? '';
+
+// WebLLM fetches libraries on localhost and relative URLs afresh instead of
+// reading them from its cache, so a digest checked there proves nothing
+const isLibraryCached = (wasmUrl: string): boolean =>
+  wasmUrl.startsWith('http') && !wasmUrl.includes('localhost') && !isLoopbackHost(new URL(wasmUrl).hostname);
+
+// Digests pinned for one build, or null if its model pins none. A model that
+// pins only some of its builds fails closed on the others ('unpinned').
+const getPinnedHashes = (modelId: string): Record<string, string> | 'unpinned' | null => {
+  const model = findModelBuild(modelId)?.model;
+  if (!model?.sha256) return null;
+  return Object.hasOwn(model.sha256, modelId) ? model.sha256[modelId] : 'unpinned';
+};
+
+// Cache and URL of a model file, by the name used in ModelConfig.sha256
+const locateFile = (name: string, files: ModelFiles): [string, string] => {
+  if (name === libraryName(files)) return [WASM_CACHE, files.wasmUrl];
+  return [name === 'mlc-chat-config.json' ? CONFIG_CACHE : MODEL_CACHE, new URL(name, files.baseUrl).href];
+};
+
+/**
+ * Records that `modelId` was just loaded, for the "last used" column.
+ */
+export async function recordModelUse(modelId: string): Promise<void> {
+  if (!isSupported()) return;
+  try {
+    const cache = await caches.open(USAGE_CACHE);
+    await cache.put(usageKey(modelId), new Response(JSON.stringify({ lastUsed: Date.now() })));
+  } catch {
+    // Usage times are best effort
+  }
+}
+
+/**
+ * Lists every build of a catalog model (built-in or custom) that has files in
+ * the browser cache.
+ */
+export async function listCachedModels(): Promise<CachedModel[]> {
+  if (!isSupported()) return [];
+
+  const [modelCache, configCache, wasmCache, usageCache] = await Promise.all(
+    [MODEL_CACHE, CONFIG_CACHE, WASM_CACHE, USAGE_CACHE].map(openExisting)
+  );
+  if (!modelCache) return [];
+
+  const modelRequests = await modelCache.keys();
+  const configRequests = configCache ? await configCache.keys() : [];
+  const result: CachedModel[] = [];
+
+  const appConfig = getAppConfig();
+  const builds = getCatalogModels().flatMap(model => getModelVariants(model).map(variant => ({ model, variant })));
+  for (const { model, variant } of builds) {
+    const files = getModelFiles(variant.id);
+    if (!files) continue;
+
+    const weights = modelRequests.filter(req => req.url.startsWith(files.baseUrl));
+    if (weights.length === 0) continue;
+
+    const entries: Array<[Cache, Request]> = [
+      ...weights.map(req => [modelCache, req] as [Cache, Request]),
+      ...configRequests.filter(req => req.url.startsWith(files.baseUrl)).map(req => [configCache!, req] as [Cache, Request])
+    ];
+
+    let bytes = 0;
+    for (const [cache, request] of entries) {
+      const response = await cache.match(request);
+      if (response) bytes += await responseSize(response);
+    }
+    const wasm = await wasmCache?.match(files.wasmUrl);
+    if (wasm) bytes += await responseSize(wasm);
+
+    let lastUsed: Date | null = null;
+    const usage = await usageCache?.match(usageKey(variant.id));
+    if (usage) {
+      const { lastUsed: time } = await usage.json();
+      lastUsed = typeof time === 'number' ? new Date(time) : null;
+    }
+
+    result.push({
+      model,
+      modelId: variant.id,
+      quantization: variant.quantization,
+      bytes,
+      files: entries.length + (wasm ? 1 : 0),
+      complete: await webllm.hasModelInCache(variant.id, appConfig).catch(() => false),
+      lastUsed
+    });
+  }
+
+  return result.sort((a, b) => b.bytes - a.bytes);
+}
+
+/**
+ * Checks a cached model against its weight manifest (ndarray-cache.json):
+ * every shard must be present with the size the manifest lists, and the
+ * config and WASM library must be cached.
+ */
+export async function verifyCachedModel(modelId: string): Promise<CacheVerification> {
+  const files = getModelFiles(modelId);
+  const modelCache = isSupported() ? await openExisting(MODEL_CACHE) : null;
+  if (!files || !modelCache) {
+    return { ok: false, checkedFiles: 0, missing: ['ndarray-cache.json'], damaged: [], tampered: [], unpinned: false };
+  }
+
+  const missing: string[] = [];
+  const damaged: string[] = [];
+  let checkedFiles = 0;
+
+  const manifestResponse = await modelCache.match(new URL('ndarray-cache.json', files.baseUrl).href);
+  if (!manifestResponse) {
+    return { ok: false, checkedFiles: 0, missing: ['ndarray-cache.json'], damaged: [], tampered: [], unpinned: false };
+  }
+  const manifest = await manifestResponse.json();
+  const records: Array<{ dataPath: string; nbytes: number }> = Array.isArray(manifest?.records) ? manifest.records : [];
+
+  for (const record of records) {
+    checkedFiles++;
+    const response = await modelCache.match(new URL(record.dataPath, files.baseUrl).href);
+    if (!response) {
+      missing.push(record.dataPath);
+    } else if (await responseSize(response) !== record.nbytes) {
+      damaged.push(record.dataPath);
+    }
+  }
+
+  const configCache = await openExisting(CONFIG_CACHE);
+  checkedFiles++;
+  if (!(await configCache?.match(new URL('mlc-chat-config.json', files.baseUrl).href))) {
+    missing.push('mlc-chat-config.json');
+  }
+
+  const wasmCache = await openExisting(WASM_CACHE);
+  checkedFiles++;
+  if (!(await wasmCache?.match(files.wasmUrl))) {
+    missing.push(files.wasmUrl.split('/').pop() ?? 'model library');
+  }
+
+  const unpinned = getPinnedHashes(modelId) === 'unpinned';
+  const pinnedCheck = unpinned ? { mismatched: [], missing: [] } : await verifyPinnedHashes(modelId);
+  const tampered = pinnedCheck.mismatched;
+  missing.push(...pinnedCheck.missing.filter(name => !missing.includes(name)));
+
+  return {
+    ok: missing.length === 0 && damaged.length === 0 && tampered.length === 0 && !unpinned,
+    checkedFiles,
+    missing,
+    damaged,
+    tampered,
+    unpinned
+  };
+}
+
+/**
+ * Checks cached files against the SHA-256 digests pinned for this build. Files
+ * that do not match are deleted, so the next load downloads them again, and
+ * are logged to the network audit. A pinned file that is not cached counts as
+ * missing: it was never checked, so it cannot pass.
+ *
+ * @param modelId - Build id (one of the model's quantization variants)
+ * @param only - Check just these file names
+ * @throws UnpinnedBuildError if the model pins digests for other builds only
+ */
+export async function verifyPinnedHashes(modelId: string, only?: string[]): Promise<PinnedHashCheck> {
+  const pinned = getPinnedHashes(modelId);
+  if (pinned === 'unpinned') throw new UnpinnedBuildError(modelId);
+  const files = getModelFiles(modelId);
+  const check: PinnedHashCheck = { mismatched: [], missing: [] };
+  if (!pinned || !files) return check;
+
+  const names = Object.keys(pinned).filter(name => !only || only.includes(name));
+  if (!isSupported()) {
+    return { ...check, missing: names };
+  }
+
+  let checked = 0;
+  for (const name of names) {
+    const expected = pinned[name];
+    const [cacheName, url] = locateFile(name, files);
+    const cache = await openExisting(cacheName);
+    const response = await cache?.match(url);
+    if (!cache || !response) {
+      check.missing.push(name);
+      networkAudit.logRequest(url, false, 'Pinned file not in the cache, SHA-256 not checked', 'VERIFY');
+      continue;
+    }
+
+    // One file in memory at a time: shards are tens of MB each
+    checked++;
+    const actual = toHex(await crypto.subtle.digest('SHA-256', await response.arrayBuffer()));
+    if (actual !== expected) {
+      check.mismatched.push(name);
+      await cache.delete(url);
+      networkAudit.logRequest(url, false, `SHA-256 mismatch (expected ${expected.slice(0, 12)}…, got ${actual.slice(0, 12)}…), file deleted`, 'VERIFY');
+    }
+  }
+
+  if (checked > 0 && check.mismatched.length === 0 && check.missing.length === 0) {
+    networkAudit.logRequest(files.baseUrl, true, `SHA-256 verified (${checked} files)`, 'VERIFY');
+  }
+  return check;
+}
+
+/**
+ * Throws when a check did not pass: IntegrityError for files that did not
+ * match, UnverifiedFilesError for pinned files that could not be checked.
+ */
+export function assertPinnedHashes(check: PinnedHashCheck): void {
+  if (check.mismatched.length > 0) throw new IntegrityError(check.mismatched);
+  if (check.missing.length > 0) throw new UnverifiedFilesError(check.missing);
+}
+
+/**
+ * Downloads the model library into WebLLM's cache if needed and checks it
+ * against its pinned digest, so a tampered library is caught before it runs.
+ *
+ * @throws UnpinnedBuildError if the model pins digests for other builds only
+ * @throws UnverifiedFilesError if the library is pinned but WebLLM would not
+ *   load it from the cache (localhost and relative URLs)
+ */
+export async function verifyModelLibrary(modelId: string): Promise<PinnedHashCheck> {
+  const pinned = getPinnedHashes(modelId);
+  if (pinned === 'unpinned') throw new UnpinnedBuildError(modelId);
+  const files = getModelFiles(modelId);
+  if (!files || !pinned?.[libraryName(files)]) return { mismatched: [], missing: [] };
+
+  if (!isLibraryCached(files.wasmUrl)) {
+    throw new UnverifiedFilesError(
+      [libraryName(files)],
+      'Model libraries served from localhost are loaded without the cache, so their pinned digest cannot be checked. ' +
+      'Serve the library from another allowed host, or remove its digest.',
+      ['choose-model']
+    );
+  }
+  if (!isSupported()) return { mismatched: [], missing: [libraryName(files)] };
+
+  const cache = await caches.open(WASM_CACHE);
+  if (!(await cache.match(files.wasmUrl))) {
+    // Through fetch (not cache.add) so the network guard sees and logs it
+    const response = await fetch(files.wasmUrl);
+    if (!response.ok) {
+      throw new DownloadFailedError(`The model library could not be downloaded (HTTP ${response.status}).`);
+    }
+    await cache.put(files.wasmUrl, response);
+  }
+  return verifyPinnedHashes(modelId, [libraryName(files)]);
+}
+
+const fileResponse = (file: File, contentType: string): Response =>
+  new Response(file, {
+    headers: { 'Content-Type': contentType, 'Content-Length': String(file.size) }
+  });
+
+/**
+ * Copies a model folder (as published on Hugging Face, plus optionally its
+ * .wasm library) into the cache under the URLs WebLLM would download from,
+ * so the model loads without network access. Everything is checked against
+ * the weight manifest before anything is written.
+ *
+ * @param onProgress - Called with files written so far and the total
+ * @throws Error naming what is missing or damaged
+ */
+export async function importModelFolder(
+  modelId: string,
+  folder: FolderFile[],
+  onProgress?: (written: number, total: number) => void
+): Promise<FolderImportResult> {
+  const files = getModelFiles(modelId);
+  if (!files) throw new Error('Unknown model');
+  if (!isSupported()) throw new Error('This browser cannot store models');
+
+  // The folder root is wherever ndarray-cache.json is (the pick may be one level up)
+  const manifestEntry = folder
+    .filter(entry => entry.path.split('/').pop() === 'ndarray-cache.json')
+    .sort((a, b) => a.path.length - b.path.length)[0];
+  if (!manifestEntry) {
+    throw new Error('ndarray-cache.json not found. Pick the folder that contains the model weights.');
+  }
+  const root = manifestEntry.path.slice(0, -'ndarray-cache.json'.length);
+  const byName = new Map(
+    folder.filter(entry => entry.path.startsWith(root)).map(entry => [entry.path.slice(root.length), entry.file])
+  );
+
+  const manifest = safeJsonParse<{ records?: Array<{ dataPath: string; nbytes: number }> }>(await manifestEntry.file.text());
+  const config = byName.get('mlc-chat-config.json');
+  const chatConfig = config ? safeJsonParse<{ tokenizer_files?: string[] }>(await config.text()) : null;
+  if (!Array.isArray(manifest?.records) || !chatConfig) {
+    throw new Error('ndarray-cache.json or mlc-chat-config.json is missing or unreadable');
+  }
+
+  const problems: string[] = [];
+  for (const record of manifest.records) {
+    const shard = byName.get(record.dataPath);
+    if (!shard) problems.push(`${record.dataPath} is missing`);
+    else if (shard.size !== record.nbytes) problems.push(`${record.dataPath} has the wrong size`);
+  }
+  const tokenizerFiles = (chatConfig.tokenizer_files ?? []).filter(name => byName.has(name));
+  if (tokenizerFiles.length === 0) problems.push('tokenizer.json is missing');
+  if (problems.length > 0) {
+    throw new Error(`The folder does not match the model: ${problems.slice(0, 3).join(', ')}${problems.length > 3 ? ` and ${problems.length - 3} more` : ''}`);
+  }
+
+  // Prefer the library with the expected name, else the only .wasm in the folder
+  const wasmName = libraryName(files);
+  const wasmFiles = folder.filter(entry => entry.path.endsWith('.wasm'));
+  const wasm = wasmFiles.find(entry => entry.path.split('/').pop() === wasmName)?.file ??
+    (wasmFiles.length === 1 ? wasmFiles[0].file : undefined);
+
+  const writes: Array<[string, string, File, string]> = [
+    [MODEL_CACHE, 'ndarray-cache.json', manifestEntry.file, 'application/json'],
+    ...manifest.records.map(record => [MODEL_CACHE, record.dataPath, byName.get(record.dataPath)!, 'application/octet-stream'] as [string, string, File, string]),
+    ...tokenizerFiles.map(name => [MODEL_CACHE, name, byName.get(name)!, 'application/octet-stream'] as [string, string, File, string]),
+    [CONFIG_CACHE, 'mlc-chat-config.json', config!, 'application/json']
+  ];
+
+  let written = 0;
+  let bytes = 0;
+  const total = writes.length + (wasm ? 1 : 0);
+  for (const [cacheName, name, file, contentType] of writes) {
+    const cache = await caches.open(cacheName);
+    await cache.put(new URL(name, files.baseUrl).href, fileResponse(file, contentType));
+    bytes += file.size;
+    onProgress?.(++written, total);
+  }
+  if (wasm) {
+    await (await caches.open(WASM_CACHE)).put(files.wasmUrl, fileResponse(wasm, 'application/wasm'));
+    bytes += wasm.size;
+    onProgress?.(++written, total);
+  }
+
+  const { mismatched } = await verifyPinnedHashes(modelId);
+  if (mismatched.length > 0) {
+    throw new Error(`These files do not match the model's pinned SHA-256 and were removed: ${mismatched.join(', ')}`);
+  }
+
+  const hasModelLib = wasm !== undefined || !!(await (await openExisting(WASM_CACHE))?.match(files.wasmUrl));
+  return { files: written, bytes, hasModelLib };
+}
+
+/**
+ * Deletes a model's weights, tokenizer, config and usage record. The WASM
+ * library is kept if another cached model uses the same one.
+ */
+export async function deleteCachedModel(modelId: string): Promise<void> {
+  const files = getModelFiles(modelId);
+  if (!files || !isSupported()) return;
+
+  for (const name of [MODEL_CACHE, CONFIG_CACHE]) {
+    const cache = await openExisting(name);
+    if (!cache) continue;
+    const requests = await cache.keys();
+    await Promise.all(requests.filter(req => req.url.startsWith(files.baseUrl)).map(req => cache.delete(req)));
+  }
+
+  const remaining = (await listCachedModels()).filter(cached => cached.modelId !== modelId);
+  const wasmShared = remaining.some(cached => getModelFiles(cached.modelId)?.wasmUrl === files.wasmUrl);
+  if (!wasmShared) {
+    await (await openExisting(WASM_CACHE))?.delete(files.wasmUrl);
+  }
+
+  await (await openExisting(USAGE_CACHE))?.delete(usageKey(modelId));
+}
+
+/**
+ * Reads the origin's storage usage and quota, and whether it is persistent.
+ */
+export async function getStorageStatus(): Promise<StorageStatus> {
+  const storage = typeof navigator !== 'undefined' ? navigator.storage : undefined;
+  if (!storage) {
+    return { usage: null, quota: null, persisted: null };
+  }
+  const [estimate, persisted] = await Promise.all([
+    storage.estimate?.().catch(() => null) ?? null,
+    storage.persisted?.().catch(() => null) ?? null
+  ]);
+  return {
+    usage: estimate?.usage ?? null,
+    quota: estimate?.quota ?? null,
+    persisted
+  };
+}
+
+/**
+ * Asks the browser not to evict cached models under storage pressure.
+ *
+ * @returns true if storage is now persistent
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  try {
+    return (await navigator.storage?.persist?.()) ?? false;
+  } catch {
+    return false;
+  }
+}
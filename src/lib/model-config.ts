@@ -1,13 +1,66 @@
+import { prebuiltAppConfig } from '@mlc-ai/web-llm';
+import { FULL_MODEL_STORAGE_BINDING } from './hardware-detect';
+import type { DeviceResources } from './hardware-detect';
+
 export interface ModelConfig {
   id: string;
+  /**
+   * Quantized builds WebLLM offers, preferred first. Their ids differ from
+   * `id` only in the quantization suffix. When absent, `id` is the only build.
+   */
+  quantizations?: Quantization[];
   name: string;
   size: string;
+  /** Maximum tokens (prompt + reply) the model is compiled for */
+  contextWindow: number;
   requirements: {
     ram: number;
     gpu: 'optional' | 'recommended' | 'required';
   };
   description: string;
   category: 'tiny' | 'small' | 'medium' | 'large' | 'xl' | 'coding';
+  /**
+   * Thinks in a <think>…</think> block before answering (see lib/reasoning):
+   * 'always' when the chat template opens the block itself (DeepSeek-R1
+   * distills), 'optional' when thinking can be switched off (Qwen3).
+   */
+  reasoning?: 'always' | 'optional';
+  /** Set on user-registered models (see lib/custom-models); built-in models come from WebLLM's prebuilt list */
+  source?: ModelSource;
+  /**
+   * Pinned SHA-256 digests (lowercase hex) by build id, then by file name, e.g.
+   * 'mlc-chat-config.json', 'tokenizer.json', 'params_shard_0.bin' or the model
+   * library's .wasm file name. Each quantization is a different set of files.
+   * Listed files are verified after download (see lib/model-cache); a build
+   * left out cannot be loaded.
+   */
+  sha256?: Record<string, Record<string, string>>;
+}
+
+// 4-bit weights with 16-bit or 32-bit float activations
+export type Quantization = 'q4f16_1' | 'q4f32_1';
+
+/**
+ * One quantized build of a model.
+ */
+export interface ModelVariant {
+  /** MLC model id of this build */
+  id: string;
+  /** Quantization from the id, or null if the id does not name one */
+  quantization: string | null;
+  /** f16 builds need the WebGPU 'shader-f16' feature */
+  requiresShaderF16: boolean;
+}
+
+/**
+ * Where WebLLM downloads a custom model from.
+ */
+export interface ModelSource {
+  /** Hugging Face repo (or mirror) holding the MLC weights and mlc-chat-config.json */
+  modelUrl: string;
+  /** Compiled model library (.wasm) */
+  modelLibUrl: string;
+  vramRequiredMB: number;
 }
 
 // 35+ AI models organized by capability and size
@@ -15,40 +68,51 @@ export const MODELS: Record<string, ModelConfig> = {
   // TINY TIER (500MB-1GB) - Ultra-fast, all devices
   smollm2_360m: {
     id: 'SmolLM2-360M-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'SmolLM2 360M',
     size: '350MB',
+    contextWindow: 4096,
     requirements: { ram: 2, gpu: 'optional' },
     description: 'Extremely lightweight model for very old devices',
     category: 'tiny'
   },
   qwen2_0_5b: {
     id: 'Qwen2.5-0.5B-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Qwen2.5 0.5B',
     size: '500MB',
+    contextWindow: 4096,
     requirements: { ram: 4, gpu: 'optional' },
     description: 'Ultra-fast, works on all devices including old phones',
     category: 'tiny'
   },
   qwen3_0_6b: {
     id: 'Qwen3-0.6B-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Qwen3 0.6B',
     size: '600MB',
+    contextWindow: 4096,
     requirements: { ram: 4, gpu: 'optional' },
     description: 'Latest ultra-compact Qwen model, excellent efficiency',
-    category: 'tiny'
+    category: 'tiny',
+    reasoning: 'optional'
   },
   llama32_1b: {
     id: 'Llama-3.2-1B-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Llama 3.2 1B',
     size: '879MB',
+    contextWindow: 4096,
     requirements: { ram: 6, gpu: 'optional' },
     description: 'Flexible and fast, great for mobile devices',
     category: 'tiny'
   },
   tinyllama_1b: {
     id: 'TinyLlama-1.1B-Chat-v1.0-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'TinyLlama 1.1B',
     size: '879MB',
+    contextWindow: 2048,
     requirements: { ram: 6, gpu: 'optional' },
     description: 'Ultra-compact model for resource-constrained devices',
     category: 'tiny'
@@ -57,32 +121,41 @@ export const MODELS: Record<string, ModelConfig> = {
   // SMALL TIER (1-2GB) - Fast, most devices
   qwen2_1_5b: {
     id: 'Qwen2.5-1.5B-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Qwen2.5 1.5B',
     size: '1.63GB',
+    contextWindow: 4096,
     requirements: { ram: 8, gpu: 'recommended' },
     description: 'Recommended: Best balance of speed and quality',
     category: 'small'
   },
   qwen3_1_7b: {
     id: 'Qwen3-1.7B-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Qwen3 1.7B',
     size: '1.7GB',
+    contextWindow: 4096,
     requirements: { ram: 8, gpu: 'recommended' },
     description: 'Latest Qwen3 model with improved performance',
-    category: 'small'
+    category: 'small',
+    reasoning: 'optional'
   },
   smollm2_1_7b: {
     id: 'SmolLM2-1.7B-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'SmolLM2 1.7B',
     size: '1.1GB',
+    contextWindow: 4096,
     requirements: { ram: 8, gpu: 'recommended' },
     description: 'Efficient small model with good performance',
     category: 'small'
   },
   gemma_2b: {
     id: 'gemma-2-2b-it-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Gemma 2-2B (Google)',
     size: '1.73GB',
+    contextWindow: 4096,
     requirements: { ram: 8, gpu: 'recommended' },
     description: 'Google\'s efficient model, excellent for general tasks',
     category: 'small'
@@ -91,40 +164,50 @@ export const MODELS: Record<string, ModelConfig> = {
   // MEDIUM TIER (2-4GB) - High quality, good devices
   llama32_3b: {
     id: 'Llama-3.2-3B-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Llama 3.2 3B',
     size: '2.26GB',
+    contextWindow: 4096,
     requirements: { ram: 12, gpu: 'recommended' },
     description: 'High quality responses, good for complex conversations',
     category: 'medium'
   },
   hermes_3b: {
     id: 'Hermes-3-Llama-3.2-3B-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Hermes 3 Llama 3B (Uncensored)',
     size: '2.26GB',
+    contextWindow: 4096,
     requirements: { ram: 12, gpu: 'recommended' },
     description: 'Uncensored 3B model with strong instruction following',
     category: 'medium'
   },
   stablelm_3b: {
     id: 'stablelm-2-zephyr-1_6b-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'StableLM 2 Zephyr 1.6B',
     size: '1.89GB',
+    contextWindow: 4096,
     requirements: { ram: 10, gpu: 'recommended' },
     description: 'Stability AI\'s efficient model, great for creative tasks',
     category: 'medium'
   },
   qwen25_3b: {
     id: 'Qwen2.5-3B-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Qwen2.5 3B',
     size: '2.1GB',
+    contextWindow: 4096,
     requirements: { ram: 10, gpu: 'recommended' },
     description: 'Latest Qwen model with excellent multilingual capabilities',
     category: 'medium'
   },
   redpajama_3b: {
     id: 'RedPajama-INCITE-Chat-3B-v1-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'RedPajama 3B',
     size: '2.07GB',
+    contextWindow: 2048,
     requirements: { ram: 10, gpu: 'recommended' },
     description: 'Open-source model trained on diverse data, versatile',
     category: 'medium'
@@ -133,84 +216,106 @@ export const MODELS: Record<string, ModelConfig> = {
   // LARGE TIER (4-6GB) - Very capable, powerful devices
   hermes_7b: {
     id: 'Hermes-2-Pro-Mistral-7B-q4f16_1-MLC',
+    quantizations: ['q4f16_1'],
     name: 'Hermes 2 Pro 7B (Uncensored)',
     size: '4.03GB',
+    contextWindow: 4096,
     requirements: { ram: 12, gpu: 'required' },
     description: 'Advanced uncensored model with excellent instruction following',
     category: 'large'
   },
   mistral_7b: {
     id: 'Mistral-7B-Instruct-v0.2-q4f16_1-MLC',
+    quantizations: ['q4f16_1'],
     name: 'Mistral 7B v0.2',
     size: '4.37GB',
+    contextWindow: 4096,
     requirements: { ram: 12, gpu: 'required' },
     description: 'Popular powerful model, excellent for complex reasoning',
     category: 'large'
   },
   mistral_7b_v0_3: {
     id: 'Mistral-7B-Instruct-v0.3-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Mistral 7B v0.3',
     size: '4.37GB',
+    contextWindow: 4096,
     requirements: { ram: 12, gpu: 'required' },
     description: 'Latest Mistral model with improved performance',
     category: 'large'
   },
   openhermes_7b: {
     id: 'OpenHermes-2.5-Mistral-7B-q4f16_1-MLC',
+    quantizations: ['q4f16_1'],
     name: 'OpenHermes 2.5 Mistral 7B',
     size: '4.37GB',
+    contextWindow: 4096,
     requirements: { ram: 12, gpu: 'required' },
     description: 'Fine-tuned Mistral with excellent instruction following',
     category: 'large'
   },
   neuralhermes_7b: {
     id: 'NeuralHermes-2.5-Mistral-7B-q4f16_1-MLC',
+    quantizations: ['q4f16_1'],
     name: 'NeuralHermes 2.5 Mistral 7B',
     size: '4.37GB',
+    contextWindow: 4096,
     requirements: { ram: 12, gpu: 'required' },
     description: 'Specialized for complex reasoning and problem-solving',
     category: 'large'
   },
   deepseek_7b: {
     id: 'DeepSeek-R1-Distill-Qwen-7B-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'DeepSeek-R1 7B (Reasoning)',
     size: '5.11GB',
+    contextWindow: 4096,
     requirements: { ram: 12, gpu: 'required' },
     description: 'Specialized reasoning model with chain-of-thought capabilities',
-    category: 'large'
+    category: 'large',
+    reasoning: 'always'
   },
 
   // XL TIER (5-8GB) - Extremely capable, high-end devices
   llama31_8b: {
     id: 'Llama-3.1-8B-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Llama 3.1 8B',
     size: '4.60GB',
+    contextWindow: 4096,
     requirements: { ram: 16, gpu: 'required' },
     description: 'Meta\'s flagship model, exceptional at all tasks',
     category: 'xl'
   },
   hermes_8b: {
     id: 'Hermes-3-Llama-3.1-8B-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Hermes 3 Llama 8B (Uncensored)',
     size: '4.98GB',
+    contextWindow: 4096,
     requirements: { ram: 16, gpu: 'required' },
     description: 'Latest uncensored model with advanced capabilities, no content restrictions',
     category: 'xl'
   },
   deepseek_8b: {
     id: 'DeepSeek-R1-Distill-Llama-8B-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'DeepSeek-R1 8B (Advanced Reasoning)',
     size: '5.00GB',
+    contextWindow: 4096,
     requirements: { ram: 16, gpu: 'required' },
     description: 'Top-tier reasoning model with exceptional problem-solving',
-    category: 'xl'
+    category: 'xl',
+    reasoning: 'always'
   },
 
   // Additional LARGE TIER - Mathematics specialist
   wizardmath_7b: {
     id: 'WizardMath-7B-V1.1-q4f16_1-MLC',
+    quantizations: ['q4f16_1'],
     name: 'WizardMath 7B',
     size: '4.57GB',
+    contextWindow: 4096,
     requirements: { ram: 16, gpu: 'required' },
     description: 'Specialized in mathematics and complex problem-solving',
     category: 'large'
@@ -219,26 +324,33 @@ export const MODELS: Record<string, ModelConfig> = {
   // Additional MEDIUM TIER models
   phi_3_5_mini: {
     id: 'Phi-3.5-mini-instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Phi-3.5 Mini',
     size: '2.3GB',
+    contextWindow: 4096,
     requirements: { ram: 10, gpu: 'recommended' },
     description: 'Microsoft\'s efficient model with strong reasoning capabilities',
     category: 'medium'
   },
   qwen3_4b: {
     id: 'Qwen3-4B-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Qwen3 4B',
     size: '2.5GB',
+    contextWindow: 4096,
     requirements: { ram: 12, gpu: 'required' },
     description: 'Latest Qwen3 model with excellent performance',
-    category: 'medium'
+    category: 'medium',
+    reasoning: 'optional'
   },
 
   // Additional LARGE TIER models
   qwen25_7b: {
     id: 'Qwen2.5-7B-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Qwen2.5 7B',
     size: '4.7GB',
+    contextWindow: 4096,
     requirements: { ram: 12, gpu: 'required' },
     description: 'Latest Qwen model with excellent multilingual support',
     category: 'large'
@@ -247,16 +359,21 @@ export const MODELS: Record<string, ModelConfig> = {
   // Additional XL TIER models
   qwen3_8b: {
     id: 'Qwen3-8B-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Qwen3 8B',
     size: '5.0GB',
+    contextWindow: 4096,
     requirements: { ram: 16, gpu: 'required' },
     description: 'Latest Qwen3 flagship model with cutting-edge capabilities',
-    category: 'xl'
+    category: 'xl',
+    reasoning: 'optional'
   },
   gemma2_9b: {
     id: 'gemma-2-9b-it-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Gemma 2-9B',
     size: '5.4GB',
+    contextWindow: 4096,
     requirements: { ram: 16, gpu: 'required' },
     description: 'Google\'s advanced 9B model with strong reasoning',
     category: 'xl'
@@ -265,41 +382,65 @@ export const MODELS: Record<string, ModelConfig> = {
   // CODING TIER - Specialized coding models optimized for software development
   qwen25_coder_7b: {
     id: 'Qwen2.5-Coder-7B-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Qwen2.5-Coder 7B (Largest)',
     size: '4.7GB',
+    contextWindow: 4096,
     requirements: { ram: 16, gpu: 'required' },
     description: 'Most powerful coding model - expert at programming, debugging, and code review',
     category: 'coding'
   },
   qwen25_coder_3b: {
     id: 'Qwen2.5-Coder-3B-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Qwen2.5-Coder 3B',
     size: '2.1GB',
+    contextWindow: 4096,
     requirements: { ram: 12, gpu: 'recommended' },
     description: 'Efficient coding model great for development tasks and refactoring',
     category: 'coding'
   },
   qwen25_coder_1_5b: {
     id: 'Qwen2.5-Coder-1.5B-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Qwen2.5-Coder 1.5B',
     size: '1.2GB',
+    contextWindow: 4096,
     requirements: { ram: 8, gpu: 'recommended' },
     description: 'Fast coding assistant for quick tasks and code completion',
     category: 'coding'
   },
   qwen25_coder_0_5b: {
     id: 'Qwen2.5-Coder-0.5B-Instruct-q4f16_1-MLC',
+    quantizations: ['q4f16_1', 'q4f32_1'],
     name: 'Qwen2.5-Coder 0.5B (Mobile)',
     size: '400MB',
+    contextWindow: 4096,
     requirements: { ram: 4, gpu: 'optional' },
     description: 'Ultra-fast coding helper for mobile devices and simple coding tasks',
     category: 'coding'
   }
 };
 
+// User-registered models, merged into every lookup below (kept in sync by the chat store)
+let customModels: ModelConfig[] = [];
+
+export function setCustomModels(models: ModelConfig[]): void {
+  customModels = models;
+}
+
+export function getCustomModels(): ModelConfig[] {
+  return customModels;
+}
+
+// Built-in and custom models together
+export function getCatalogModels(): ModelConfig[] {
+  return [...Object.values(MODELS), ...customModels];
+}
+
 // Get models by category for easier filtering
 export function getModelsByCategory(category: ModelConfig['category']): ModelConfig[] {
-  return Object.values(MODELS).filter(model => model.category === category);
+  return getCatalogModels().filter(model => model.category === category);
 }
 
 // Helper function to convert size string to MB for proper sorting
@@ -308,56 +449,129 @@ function parseSizeToMB(size: string): number {
   return size.includes('GB') ? num * 1024 : num;
 }
 
+// Download size in MB (also a good proxy for the weights read per token)
+export function getModelSizeMB(model: ModelConfig): number {
+  return parseSizeToMB(model.size);
+}
+
 // Get all models as array sorted by size
 export function getAllModelsSorted(): ModelConfig[] {
-  return Object.values(MODELS).sort((a, b) => {
+  return getCatalogModels().sort((a, b) => {
     const sizeA = parseSizeToMB(a.size);
     const sizeB = parseSizeToMB(b.size);
     return sizeA - sizeB;
   });
 }
 
-// Filter models based on device capabilities
-export function getModelsForDevice(deviceMemory: number, isMobile: boolean): ModelConfig[] {
-  return Object.values(MODELS).filter(model => {
-    // Mobile devices (iOS/Android) - be conservative
-    if (isMobile) {
-      // iOS Safari and mobile browsers have strict memory limits (~2-3GB for web apps)
-      // Even if device has 8GB, we can't use it all
-      if (deviceMemory <= 4) {
-        // Low-end phones: Only tiny models
-        return model.category === 'tiny';
-      } else if (deviceMemory <= 8) {
-        // Mid to high-end phones (iPhone 15 Pro Max, Galaxy S24): Tiny + Small
-        return model.category === 'tiny' || model.category === 'small';
-      } else {
-        // Tablets with lots of RAM: Tiny + Small + some Medium
-        return model.category === 'tiny' || model.category === 'small' ||
-               (model.category === 'medium' && model.requirements.ram <= 6);
-      }
-    }
+const QUANTIZATION_PATTERN = /q\d+f(16|32)_\d+/;
 
-    // Desktop - show all models that fit in available RAM
-    return model.requirements.ram <= deviceMemory;
-  });
+// Builds of a model, preferred first
+export function getModelVariants(model: ModelConfig): ModelVariant[] {
+  const match = QUANTIZATION_PATTERN.exec(model.id);
+  if (!match) {
+    return [{ id: model.id, quantization: null, requiresShaderF16: false }];
+  }
+  const quantizations: string[] = model.quantizations ?? [match[0]];
+  return quantizations.map(quantization => ({
+    id: model.id.replace(match[0], quantization),
+    quantization,
+    requiresShaderF16: QUANTIZATION_PATTERN.exec(quantization)?.[1] === '16'
+  }));
+}
+
+// Model a build id belongs to, with that build
+export function findModelBuild(buildId: string): { model: ModelConfig; variant: ModelVariant } | null {
+  for (const model of getCatalogModels()) {
+    const variant = getModelVariants(model).find(v => v.id === buildId);
+    if (variant) return { model, variant };
+  }
+  return null;
+}
+
+// Preferred build the GPU can run (f16 needs shader-f16), or null if none
+export function selectModelVariant(model: ModelConfig, supportsShaderF16: boolean): ModelVariant | null {
+  return getModelVariants(model).find(variant => supportsShaderF16 || !variant.requiresShaderF16) ?? null;
+}
+
+// Model family from the id: everything before the parameter count
+// ('Qwen2.5-Coder-7B-Instruct-...' -> 'Qwen2.5-Coder', 'gemma-2-2b-it-...' -> 'gemma-2')
+export function getModelFamily(model: ModelConfig): string | null {
+  const match = /^(.+?)-\d+(?:[._]\d+)?[bm](?=-|$)/i.exec(model.id);
+  return match ? match[1].toLowerCase() : null;
+}
+
+// Largest model of the same family that is smaller than `model`, if any
+export function getSmallerFamilyModel(model: ModelConfig): ModelConfig | null {
+  const family = getModelFamily(model);
+  if (!family) return null;
+  const size = parseSizeToMB(model.size);
+  const smaller = getCatalogModels()
+    .filter(m => m.id !== model.id && getModelFamily(m) === family && parseSizeToMB(m.size) < size)
+    .sort((a, b) => parseSizeToMB(b.size) - parseSizeToMB(a.size));
+  return smaller[0] ?? null;
+}
+
+// GPU needs of one build: from WebLLM's record, or the custom model's own figures
+function getBuildRequirements(model: ModelConfig, buildId: string): { vramMB: number; lowResource: boolean } | null {
+  if (model.source) {
+    return { vramMB: model.source.vramRequiredMB, lowResource: model.requirements.gpu === 'optional' };
+  }
+  const record = prebuiltAppConfig.model_list.find(r => r.model_id === buildId);
+  if (!record?.vram_required_MB) return null;
+  return { vramMB: record.vram_required_MB, lowResource: record.low_resource_required ?? false };
+}
+
+// GPU memory the build this device would load needs, in MB (null if unknown)
+export function getVramRequiredMB(model: ModelConfig, supportsShaderF16: boolean): number | null {
+  const variant = selectModelVariant(model, supportsShaderF16);
+  return variant ? getBuildRequirements(model, variant.id)?.vramMB ?? null : null;
+}
+
+// Filter models based on device capabilities
+export function getModelsForDevice(device: DeviceResources): ModelConfig[] {
+  return getCatalogModels().filter(model => isModelCompatible(model, device));
 }
 
-// Check if a specific model is compatible with device
-export function isModelCompatible(model: ModelConfig, deviceMemory: number, isMobile: boolean): boolean {
+// Check if a specific model is compatible with device. Values the device only
+// knows as a lower bound (low confidence) never rule a model out.
+export function isModelCompatible(model: ModelConfig, device: DeviceResources): boolean {
+  const { memoryGB, isMobile } = device;
+
+  // Only built with f16 shaders, which this GPU lacks
+  const variant = selectModelVariant(model, device.supportsShaderF16);
+  if (!variant) return false;
+
   if (isMobile) {
-    // Mobile-specific limits
-    if (deviceMemory <= 4) {
+    // iOS Safari and mobile browsers have strict memory limits (~2-3GB for web apps)
+    // Even if device has 8GB, we can't use it all
+    if (memoryGB <= 4) {
+      // Low-end phones: Only tiny models
       return model.category === 'tiny';
-    } else if (deviceMemory <= 8) {
+    } else if (memoryGB <= 8) {
+      // Mid to high-end phones (iPhone 15 Pro Max, Galaxy S24): Tiny + Small
       return model.category === 'tiny' || model.category === 'small';
     } else {
+      // Tablets with lots of RAM: Tiny + Small + some Medium
       return model.category === 'tiny' || model.category === 'small' ||
              (model.category === 'medium' && model.requirements.ram <= 6);
     }
   }
 
-  // Desktop compatibility
-  return model.requirements.ram <= deviceMemory;
+  // Desktop - the model must fit in RAM and in GPU memory
+  if (device.memoryConfidence !== 'low' && model.requirements.ram > memoryGB) {
+    return false;
+  }
+  const build = getBuildRequirements(model, variant.id);
+  if (build && device.vramGB !== undefined && device.vramConfidence !== 'low' &&
+      build.vramMB > device.vramGB * 1024) {
+    return false;
+  }
+  // The adapter's buffer limits are exact: without 1GB bindings only low-resource builds load
+  if (build && !build.lowResource && device.maxStorageBufferBindingSize !== undefined &&
+      device.maxStorageBufferBindingSize < FULL_MODEL_STORAGE_BINDING) {
+    return false;
+  }
+  return true;
 }
 
 // Legacy compatibility - map old keys to new models
@@ -0,0 +1,94 @@
+// Model Sources
+// Builds the WebLLM app config used by the engine and the cache helpers:
+// prebuilt plus custom models, with download URLs optionally redirected to a
+// mirror on this site or this machine for computers without internet.
+
+import type * as webllm from '@mlc-ai/web-llm';
+import { getCustomModels } from './model-config';
+import { buildAppConfig } from './custom-models';
+import { ALLOWED_DOWNLOAD_DOMAINS, isLoopbackHost } from './security';
+
+// Development-only logging
+const log = {
+  warn: (...args: unknown[]) => import.meta.env.DEV && console.warn(...args)
+};
+
+// Current mirror base URL ('' = download from Hugging Face / GitHub), kept in sync by the chat store
+let mirrorBaseUrl = '';
+
+/**
+ * Checks a mirror base URL. Relative paths ('/models') are resolved against
+ * this site, so weights can be served next to the app itself. Only this
+ * site's origin and localhost pass: the Content-Security-Policy (connect-src)
+ * blocks every other non-public host, and HTTPS pages may not fetch plain-http
+ * LAN addresses.
+ *
+ * @returns The normalized URL without a trailing slash
+ * @throws Error if the URL is not on this site or this machine
+ */
+export function validateMirrorUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim(), window.location.origin);
+  } catch {
+    throw new Error('Enter a mirror URL, e.g. /models or http://localhost:8080');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Mirror URL must start with http:// or https://');
+  }
+  if (parsed.origin !== window.location.origin && !isLoopbackHost(parsed.hostname)) {
+    throw new Error('The mirror must be on this site or this device (localhost); the security policy blocks other addresses');
+  }
+  return parsed.href.replace(/\/+$/, '');
+}
+
+/**
+ * Sets the mirror model files are downloaded from ('' to turn it off).
+ *
+ * @throws Error if the URL is rejected by validateMirrorUrl
+ */
+export function setModelMirror(url: string): void {
+  mirrorBaseUrl = url.trim() ? validateMirrorUrl(url) : '';
+}
+
+export function getModelMirror(): string {
+  return mirrorBaseUrl;
+}
+
+// Build-time default for air-gapped deployments (VITE_MODEL_MIRROR_URL)
+export function getDefaultModelMirror(): string {
+  const configured = import.meta.env.VITE_MODEL_MIRROR_URL;
+  if (typeof configured !== 'string' || !configured.trim()) return '';
+  try {
+    return validateMirrorUrl(configured);
+  } catch {
+    log.warn('[Models] Ignoring VITE_MODEL_MIRROR_URL: not on this site or localhost');
+    return '';
+  }
+}
+
+// The mirror serves the same paths as the public hosts:
+// https://huggingface.co/mlc-ai/X -> <mirror>/mlc-ai/X
+const toMirror = (url: string): string => {
+  const parsed = new URL(url);
+  const isPublicHost = ALLOWED_DOWNLOAD_DOMAINS.some(domain =>
+    parsed.hostname === domain || parsed.hostname.endsWith(`.${domain}`)
+  );
+  return isPublicHost ? `${mirrorBaseUrl}${parsed.pathname}` : url;
+};
+
+/**
+ * The app config for the current custom models and mirror.
+ */
+export function getAppConfig(): webllm.AppConfig {
+  const config = buildAppConfig(getCustomModels());
+  if (!mirrorBaseUrl) return config;
+  return {
+    ...config,
+    model_list: config.model_list.map(record => ({
+      ...record,
+      model: toMirror(record.model),
+      model_lib: toMirror(record.model_lib)
+    }))
+  };
+}
@@ -0,0 +1,356 @@
+// OpenAI-Compatible Local Server Backend
+// Streams chat completions from a server the user runs themselves (llama.cpp,
+// Ollama, LM Studio, vLLM...). Only localhost / 127.0.0.1 are accepted: the
+// Content-Security-Policy (connect-src) blocks every other non-public host, and
+// HTTPS pages may not call plain-http LAN addresses anyway.
+
+import type { ModelConfig } from './model-config';
+import type { ChatMessage } from './webllm-service';
+import type { BackendCapabilities, GenerateOptions, InferenceBackend, LoadProgressCallback } from './inference-backend';
+import { normalizeGenerationSettings } from './generation-settings';
+import { DEFAULT_CONTEXT_WINDOW } from './context-budget';
+import { isLoopbackHost, sanitizeInput } from './security';
+import { CancelledError, ContextOverflowError, isInferenceError, ServerError, ServerUnreachableError } from './inference-errors';
+import { GenerationTimer, toFinishReason } from './generation-stats';
+import type { ReportedStats } from './generation-stats';
+
+// Development-only logging
+const log = {
+  info: (...args: unknown[]) => import.meta.env.DEV && console.log(...args),
+  warn: (...args: unknown[]) => import.meta.env.DEV && console.warn(...args),
+  error: (...args: unknown[]) => console.error(...args) // Always log errors
+};
+
+// The parts of the OpenAI API responses read here; servers leave out what they do not support
+interface ModelListResponse {
+  data?: Array<{ id?: string } | null>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  /** llama.cpp only */
+  timings?: { predicted_per_second?: number };
+  error?: { message?: string } | string;
+}
+
+export const DEFAULT_SERVER_URL = 'http://localhost:11434/v1';
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+// llama.cpp: "exceeds the available context size"; OpenAI, vLLM: "maximum context length"
+const CONTEXT_OVERFLOW_PATTERN = /context (?:size|length|window)/i;
+
+/**
+ * Checks that `url` is an http(s) URL pointing at this machine.
+ *
+ * @returns The normalized base URL (no trailing slash)
+ * @throws Error if the URL is malformed or points at another host
+ */
+export function validateServerUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error('Enter a full server URL, e.g. http://localhost:11434/v1');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Server URL must start with http:// or https://');
+  }
+  if (!isLoopbackHost(parsed.hostname)) {
+    throw new Error('Only servers on this device (localhost or 127.0.0.1) are allowed. For a server elsewhere on your network, forward a local port to it.');
+  }
+  return parsed.toString().replace(/\/+$/, '');
+}
+
+/**
+ * Describes a model served by a local server in the same shape as the built-in models.
+ */
+export function createServerModelConfig(baseUrl: string, modelName: string, contextWindow = DEFAULT_CONTEXT_WINDOW): ModelConfig {
+  return {
+    id: modelName,
+    name: modelName,
+    size: 'Local server',
+    contextWindow,
+    requirements: { ram: 0, gpu: 'optional' },
+    description: `Served by ${new URL(baseUrl).host}`,
+    category: 'medium'
+  };
+}
+
+export class OpenAICompatibleBackend implements InferenceBackend {
+  readonly kind = 'openai-compatible' as const;
+  private baseUrl = DEFAULT_SERVER_URL;
+  private currentModel: string | null = null;
+  private abortController: AbortController | null = null;
+  private loadController: AbortController | null = null;
+
+  getCapabilities(): BackendCapabilities {
+    return {
+      inBrowser: false,
+      requiresDownload: false,
+      exactTokenCount: false
+    };
+  }
+
+  /**
+   * Sets the server to talk to. Takes effect for the next initializeModel call.
+   *
+   * @param url - Base URL of the OpenAI-compatible API (usually ending in /v1)
+   * @throws Error if the URL is not a localhost http(s) URL
+   */
+  setBaseUrl(url: string): void {
+    this.baseUrl = validateServerUrl(url);
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Lists the model names the server offers (GET /models).
+   *
+   * @param url - Optional server to query instead of the configured one
+   * @returns Model identifiers, as the server reports them
+   */
+  async listModels(url?: string): Promise<string[]> {
+    return this.fetchModels(url ? validateServerUrl(url) : this.baseUrl);
+  }
+
+  /**
+   * "Loads" a model by checking that the server is reachable and serves it.
+   * The server loads weights itself, so progress jumps from connect to ready.
+   */
+  async initializeModel(
+    modelConfig: ModelConfig,
+    onProgress?: LoadProgressCallback
+  ): Promise<void> {
+    onProgress?.(10, `Connecting to ${new URL(this.baseUrl).host}...`);
+
+    const loadController = new AbortController();
+    this.loadController = loadController;
+
+    let models: string[];
+    try {
+      models = await this.fetchModels(this.baseUrl, loadController.signal);
+    } catch (error) {
+      this.currentModel = null;
+      if (loadController.signal.aborted) {
+        throw new CancelledError('Connecting');
+      }
+      throw this.toTypedError(error);
+    } finally {
+      this.loadController = null;
+    }
+
+    // Servers that list no models accept any name; otherwise it must be listed
+    if (models.length > 0 && !models.includes(modelConfig.id)) {
+      this.currentModel = null;
+      throw new Error(`The server does not offer "${modelConfig.id}". Available: ${models.join(', ')}`);
+    }
+
+    this.currentModel = modelConfig.id;
+    onProgress?.(100, 'Connected to local server');
+    log.info('[LocalServer] Connected to', this.baseUrl, 'model', modelConfig.id);
+  }
+
+  async generateResponse(messages: ChatMessage[], options: GenerateOptions = {}): Promise<string> {
+    if (!this.currentModel) {
+      throw new Error('Model not initialized');
+    }
+
+    const { onToken, onStats, systemInstruction } = options;
+    const settings = normalizeGenerationSettings(options.settings);
+
+    const chatMessages: Array<{ role: string; content: string }> = [];
+    if (systemInstruction && systemInstruction.trim()) {
+      chatMessages.push({ role: 'system', content: systemInstruction.trim() });
+    }
+    for (const msg of messages) {
+      chatMessages.push({
+        role: msg.role,
+        content: msg.role === 'user' ? sanitizeInput(msg.content) : msg.content
+      });
+    }
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    let fullResponse = '';
+    let finishReason: string | null = null;
+    let reported: ReportedStats = {};
+    const timer = new GenerationTimer();
+
+    try {
+      const response = await this.request(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.currentModel,
+          messages: chatMessages,
+          max_tokens: settings.maxTokens,
+          temperature: settings.temperature,
+          top_p: settings.topP,
+          frequency_penalty: settings.frequencyPenalty,
+          presence_penalty: settings.presencePenalty,
+          stop: settings.stop.length > 0 ? settings.stop : undefined,
+          seed: settings.seed ?? undefined,
+          stream: true,
+          // Servers that support it send token counts in a final chunk
+          stream_options: { include_usage: true }
+        }),
+        signal: abortController.signal
+      });
+
+      if (!response.body) {
+        throw new ServerError('empty response');
+      }
+
+      // Server-sent events: "data: {json}\n\n", terminated by "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let streamDone = false;
+
+      while (!streamDone) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') {
+            streamDone = true;
+            break;
+          }
+
+          let chunk: ChatCompletionChunk | null;
+          try {
+            chunk = JSON.parse(payload);
+          } catch {
+            continue; // Ignore keep-alives and partial garbage
+          }
+          if (chunk?.error) {
+            throw new ServerError(typeof chunk.error === 'object' && chunk.error.message ? chunk.error.message : String(chunk.error));
+          }
+          const delta = chunk?.choices?.[0]?.delta?.content;
+          if (typeof delta === 'string' && delta) {
+            fullResponse += delta;
+            timer.token();
+            onToken?.(delta);
+          }
+          finishReason = chunk?.choices?.[0]?.finish_reason ?? finishReason;
+          if (chunk?.usage) {
+            reported = {
+              ...reported,
+              promptTokens: chunk.usage.prompt_tokens,
+              completionTokens: chunk.usage.completion_tokens
+            };
+          }
+          // llama.cpp reports its own decode speed
+          if (chunk?.timings?.predicted_per_second) {
+            reported = { ...reported, tokensPerSecond: chunk.timings.predicted_per_second };
+          }
+        }
+      }
+
+      onStats?.(timer.finish(toFinishReason(finishReason), reported));
+      return fullResponse;
+    } catch (error) {
+      // Cancelled by the user: keep what was streamed (same as the WebLLM backend)
+      if (abortController.signal.aborted) {
+        onStats?.(timer.finish('abort', reported));
+        return fullResponse;
+      }
+      throw this.toTypedError(error);
+    } finally {
+      this.abortController = null;
+    }
+  }
+
+  cancelLoad(): void {
+    this.loadController?.abort();
+  }
+
+  cancelGeneration(): void {
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+  }
+
+  async getTokenCount(text: string): Promise<number> {
+    // The OpenAI API has no tokenize endpoint; ~4 characters per token
+    return Math.ceil(text.length / 4);
+  }
+
+  isModelLoaded(): boolean {
+    return this.currentModel !== null;
+  }
+
+  getCurrentModel(): string | null {
+    return this.currentModel;
+  }
+
+  async unloadModel(): Promise<void> {
+    this.cancelGeneration();
+    this.currentModel = null;
+  }
+
+  async dispose(): Promise<void> {
+    await this.unloadModel();
+  }
+
+  // GET /models, optionally cancellable
+  private async fetchModels(baseUrl: string, signal?: AbortSignal): Promise<string[]> {
+    const response = await this.request(`${baseUrl}/models`, { method: 'GET', signal }, CONNECT_TIMEOUT_MS);
+    const data: ModelListResponse | null = await response.json();
+    return Array.isArray(data?.data)
+      ? data.data.map(m => String(m?.id ?? '')).filter(Boolean)
+      : [];
+  }
+
+  // fetch with a timeout and readable HTTP errors
+  private async request(url: string, init: RequestInit, timeoutMs?: number): Promise<Response> {
+    const timeout = timeoutMs ? AbortSignal.timeout(timeoutMs) : null;
+    const signal = timeout && init.signal ? AbortSignal.any([timeout, init.signal]) : (timeout ?? init.signal);
+
+    const response = await fetch(url, {
+      ...init,
+      signal,
+      credentials: 'omit',
+      referrerPolicy: 'no-referrer',
+      cache: 'no-store'
+    });
+    if (!response.ok) {
+      let detail = '';
+      try {
+        detail = (await response.text()).slice(0, 200);
+      } catch {
+        // No body
+      }
+      throw new ServerError(`HTTP ${response.status}${detail ? `: ${detail}` : ''}`, response.status);
+    }
+    return response;
+  }
+
+  // Network failures and timeouts mean the server is unreachable; error
+  // replies that mention the context size are context overflows
+  private toTypedError(error: unknown): Error {
+    if (error instanceof ServerError) {
+      return CONTEXT_OVERFLOW_PATTERN.test(error.message) ? new ContextOverflowError(undefined, error) : error;
+    }
+    if (isInferenceError(error)) {
+      return error;
+    }
+    if (error instanceof TypeError || (error instanceof DOMException && error.name === 'TimeoutError')) {
+      return new ServerUnreachableError(this.baseUrl, error);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new ServerError(message, null, error);
+  }
+}
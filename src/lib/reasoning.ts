@@ -0,0 +1,130 @@
+// Reasoning Traces
+// DeepSeek-R1 distills and Qwen3 think out loud in a <think>…</think> block
+// before answering. The stream is split as it arrives so the UI can fold the
+// reasoning away, and only the answer is stored as the message content -
+// which also keeps reasoning out of the context of follow-up requests.
+
+import type { ModelConfig } from './model-config';
+
+/**
+ * Reasoning that preceded an answer.
+ */
+export interface Reasoning {
+  content: string;
+  /** Seconds spent reasoning; null while the model is still thinking */
+  durationSeconds: number | null;
+}
+
+/**
+ * A reply (so far) split into its reasoning and its answer.
+ */
+export interface ParsedReply {
+  answer: string;
+  /** Absent when the model did not reason */
+  reasoning?: Reasoning;
+}
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+interface ReasoningSplit {
+  reasoning: string;
+  answer: string;
+  /** Inside a reasoning block that has not closed (yet) */
+  thinking: boolean;
+  /** The block opened with an explicit tag (not implied by the chat template) */
+  explicit: boolean;
+}
+
+/**
+ * Splits `text` at its reasoning block. `startsInside` is for models whose
+ * chat template already opens the block, so their output begins with
+ * reasoning and only the closing tag shows up.
+ */
+export function splitReasoning(text: string, startsInside = false): ReasoningSplit {
+  const trimmed = text.trimStart();
+  const explicit = trimmed.startsWith(OPEN_TAG);
+  // The opening tag can arrive split across tokens
+  if (!explicit && trimmed.length > 0 && OPEN_TAG.startsWith(trimmed)) {
+    return { reasoning: '', answer: '', thinking: true, explicit: true };
+  }
+
+  const body = explicit ? trimmed.slice(OPEN_TAG.length) : trimmed;
+  const closeAt = body.indexOf(CLOSE_TAG);
+  if (closeAt >= 0) {
+    return {
+      reasoning: body.slice(0, closeAt).trim(),
+      answer: body.slice(closeAt + CLOSE_TAG.length).trimStart(),
+      thinking: false,
+      explicit
+    };
+  }
+  if (explicit || startsInside) {
+    return { reasoning: body.trim(), answer: '', thinking: true, explicit };
+  }
+  return { reasoning: '', answer: text, thinking: false, explicit: false };
+}
+
+/**
+ * Splits a reply token by token and times the reasoning.
+ */
+export class ReasoningStream {
+  private raw = '';
+  private startedAt: number | null = null;
+  private endedAt: number | null = null;
+  private startsInside: boolean;
+
+  constructor(startsInside = false) {
+    this.startsInside = startsInside;
+  }
+
+  push(token: string, now = performance.now()): ParsedReply {
+    this.startedAt ??= now;
+    this.raw += token;
+    const split = splitReasoning(this.raw, this.startsInside);
+    if (!split.thinking) this.endedAt ??= now;
+    return this.toReply(split);
+  }
+
+  /**
+   * The final split once the stream ended. A block the template opened but
+   * the model never closed was most likely no reasoning at all, so it counts
+   * as the answer; an explicit one was cut off and stays reasoning.
+   */
+  finish(now = performance.now()): ParsedReply {
+    this.endedAt ??= now;
+    const split = splitReasoning(this.raw, this.startsInside);
+    if (split.thinking && !split.explicit) {
+      return { answer: this.raw };
+    }
+    return this.toReply({ ...split, thinking: false });
+  }
+
+  private toReply(split: ReasoningSplit): ParsedReply {
+    if (!split.thinking && !split.reasoning) {
+      return { answer: split.answer };
+    }
+    const durationSeconds = split.thinking || this.startedAt === null || this.endedAt === null
+      ? null
+      : (this.endedAt - this.startedAt) / 1000;
+    return { answer: split.answer, reasoning: { content: split.reasoning, durationSeconds } };
+  }
+}
+
+/**
+ * Reasoning of a reply extended with "Continue": both parts, one after the other.
+ */
+export function mergeReasoning(previous: Reasoning | undefined, next: Reasoning | undefined): Reasoning | undefined {
+  if (!previous || !next) return next ?? previous;
+  return {
+    content: [previous.content, next.content].filter(Boolean).join('\n\n'),
+    durationSeconds: next.durationSeconds === null ? null : (previous.durationSeconds ?? 0) + next.durationSeconds
+  };
+}
+
+/**
+ * Models whose reasoning can be switched off per request (Qwen3).
+ */
+export function supportsThinkingToggle(model: ModelConfig | null | undefined): boolean {
+  return model?.reasoning === 'optional';
+}
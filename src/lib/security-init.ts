@@ -2,6 +2,8 @@
 // Note: 'any' types are necessary for browser API overrides and security monitoring
 
 import { networkAudit } from './network-audit';
+import { VAULT_DB_NAME } from './vault';
+import { ALLOWED_DOWNLOAD_DOMAINS, isLocalNetworkHost } from './security';
 
 /**
  * Security Manager implementing comprehensive privacy and security controls.
@@ -383,7 +385,7 @@ export class SecurityManager {
    * Clears user data from IndexedDB while preserving AI model cache.
    *
    * This is the CORE privacy mechanism that allows offline model usage
-   * while ensuring no chat history or user preferences persist.
+   * while ensuring no plaintext chat history or user preferences persist.
    *
    * Whitelist (preserved):
    * - webllm: WebLLM model storage
@@ -391,6 +393,10 @@ export class SecurityManager {
    * - mlc-wasm-cache: MLC WASM cache
    * - mlc-chat-config: MLC configuration
    * - tvmjs: TVM JavaScript runtime
+   * - VAULT_DB_NAME: the encrypted vault. It only exists once the user opts
+   *   in to saving conversations, and holds nothing but AES-GCM ciphertext
+   *   under their passphrase. Deleting it here would erase the history they
+   *   asked to keep; only LocalVault.destroy() removes it.
    *
    * Everything else: Deleted on page unload
    *
@@ -413,6 +419,10 @@ export class SecurityManager {
         const databases = await indexedDB.databases();
         databases.forEach(dbInfo => {
           const dbName = dbInfo.name || '';
+          // The vault only holds ciphertext the user explicitly asked to keep
+          if (dbName === VAULT_DB_NAME) {
+            return;
+          }
           // Delete any database NOT in the whitelist
           if (!allowedDatabases.some(allowed => dbName.includes(allowed))) {
             indexedDB.deleteDatabase(dbName);
@@ -439,7 +449,7 @@ export class SecurityManager {
    * - cdn-lfs.huggingface.co (large file storage)
    * - raw.githubusercontent.com (fallback sources)
    * - xethub.hf.co (HuggingFace alternative CDN)
-   * - localhost/127.0.0.1 (development)
+   * - localhost/127.0.0.1 and private LAN addresses (local server, model mirror)
    * - *.onion (Tor hidden services)
    *
    * All other domains: BLOCKED
@@ -453,42 +463,15 @@ export class SecurityManager {
       const url = typeof input === 'string' ? input : input.toString();
       const method = init?.method || 'GET';
 
-      // Only allow whitelisted domains
-      const allowedDomains = [
-        'huggingface.co',
-        'cdn-lfs.huggingface.co',
-        'raw.githubusercontent.com',
-        'xethub.hf.co'
-      ];
-
       try {
+        // Only allow whitelisted domains
         const urlObj = new URL(url, window.location.origin);
-        const isAllowed = allowedDomains.some(domain =>
+        const isAllowed = ALLOWED_DOWNLOAD_DOMAINS.some(domain =>
           urlObj.hostname.includes(domain)
         );
 
         const isLocalRequest = urlObj.hostname.includes(window.location.hostname) ||
-                              urlObj.hostname === 'localhost' ||
-                              urlObj.hostname === '127.0.0.1' ||
-                              urlObj.hostname.endsWith('.onion') ||
-                              urlObj.hostname.startsWith('192.168.') ||
-                              urlObj.hostname.startsWith('10.') ||
-                              urlObj.hostname.startsWith('172.16.') ||
-                              urlObj.hostname.startsWith('172.17.') ||
-                              urlObj.hostname.startsWith('172.18.') ||
-                              urlObj.hostname.startsWith('172.19.') ||
-                              urlObj.hostname.startsWith('172.20.') ||
-                              urlObj.hostname.startsWith('172.21.') ||
-                              urlObj.hostname.startsWith('172.22.') ||
-                              urlObj.hostname.startsWith('172.23.') ||
-                              urlObj.hostname.startsWith('172.24.') ||
-                              urlObj.hostname.startsWith('172.25.') ||
-                              urlObj.hostname.startsWith('172.26.') ||
-                              urlObj.hostname.startsWith('172.27.') ||
-                              urlObj.hostname.startsWith('172.28.') ||
-                              urlObj.hostname.startsWith('172.29.') ||
-                              urlObj.hostname.startsWith('172.30.') ||
-                              urlObj.hostname.startsWith('172.31.');
+                              isLocalNetworkHost(urlObj.hostname);
 
         if (!isAllowed && !isLocalRequest) {
           // Log blocked request
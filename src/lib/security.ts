@@ -1,4 +1,5 @@
 import DOMPurify from 'dompurify';
+import { InputRejectedError } from './inference-errors';
 
 // ============================================================
 // PROTOTYPE POLLUTION PROTECTION
@@ -29,7 +30,7 @@ export const isDOMClobbered = (name: string): boolean => {
 export const sanitizeInput = (input: string): string => {
   // Input length validation - prevent DoS attacks
   if (input.length > 10000) {
-    throw new Error('Input too long');
+    throw new InputRejectedError('This message is too long (maximum 10,000 characters).');
   }
 
   // Remove any HTML/script tags with strictest settings
@@ -166,6 +167,12 @@ export const safeMarkdownToHtml = (content: string): string => {
     content = content.slice(0, MAX_MARKDOWN_LENGTH) + '\n\n[Content truncated]';
   }
 
+  // A reply that is still streaming, or was cut off at the token limit, can
+  // end inside a code block; close it so the rest renders as code, not markup
+  if ((content.match(/```/g) ?? []).length % 2 === 1) {
+    content += '\n```';
+  }
+
   // First sanitize the raw content
   let html = sanitizeMarkdown(content);
 
@@ -231,6 +238,33 @@ export const isValidExternalUrl = (url: string): boolean => {
   }
 };
 
+// Hosts on this machine: the only non-public hosts the Content-Security-Policy
+// (connect-src) lets the page reach
+export const isLoopbackHost = (hostname: string): boolean =>
+  hostname === 'localhost' || hostname === '127.0.0.1';
+
+// Hosts on this machine, a private LAN range (RFC 1918) or Tor; requests to
+// them never reach the public internet
+export const isLocalNetworkHost = (hostname: string): boolean => {
+  if (hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]' || hostname.endsWith('.onion')) {
+    return true;
+  }
+  if (hostname.startsWith('192.168.') || hostname.startsWith('10.')) {
+    return true;
+  }
+  // 172.16.0.0 - 172.31.255.255
+  const match = /^172\.(\d{1,3})\./.exec(hostname);
+  return match !== null && Number(match[1]) >= 16 && Number(match[1]) <= 31;
+};
+
+// Public hosts the network guard (security-init) lets model downloads reach
+export const ALLOWED_DOWNLOAD_DOMAINS = [
+  'huggingface.co',
+  'cdn-lfs.huggingface.co',
+  'raw.githubusercontent.com',
+  'xethub.hf.co'
+];
+
 // Open external links safely by forcing rel attributes and target
 export const openExternal = (url: string): boolean => {
   // Validate URL before opening
@@ -287,9 +321,11 @@ export const generateSecureId = (length = 32): string => {
 export const safeJsonParse = <T>(json: string): T | null => {
   try {
     const parsed = JSON.parse(json);
-    // Check for prototype pollution attempts
+    // Check for prototype pollution attempts (own keys only: `in` would also
+    // see the inherited __proto__/constructor of every object)
     if (typeof parsed === 'object' && parsed !== null) {
-      if ('__proto__' in parsed || 'constructor' in parsed || 'prototype' in parsed) {
+      const hasOwn = (key: string) => Object.prototype.hasOwnProperty.call(parsed, key);
+      if (hasOwn('__proto__') || hasOwn('constructor') || hasOwn('prototype')) {
         console.warn('[Security] Blocked prototype pollution attempt in JSON');
         return null;
       }
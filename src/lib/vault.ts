@@ -0,0 +1,237 @@
+// Encrypted Local Vault - opt-in persistence for conversations and settings
+// Everything written to disk is AES-GCM encrypted with a key derived from the
+// user's passphrase. The key itself only ever lives in memory.
+
+import { safeJsonParse } from './security';
+
+/** Dedicated IndexedDB database holding the encrypted vault */
+export const VAULT_DB_NAME = 'oblivai-vault';
+
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const DATA_STORE = 'data';
+const HEADER_KEY = 'header';
+const SNAPSHOT_KEY = 'snapshot';
+
+// PBKDF2-SHA256 work factor (OWASP 2023 recommendation)
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Known plaintext used to check a passphrase without decrypting the snapshot
+const VERIFIER_TEXT = 'oblivai-vault-v1';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface VaultHeader {
+  salt: Uint8Array;
+  iterations: number;
+  verifierIv: Uint8Array;
+  verifier: ArrayBuffer;
+}
+
+interface EncryptedRecord {
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class LocalVault {
+  private static instance: LocalVault;
+  private db: IDBDatabase | null = null;
+  private key: CryptoKey | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): LocalVault {
+    if (!LocalVault.instance) {
+      LocalVault.instance = new LocalVault();
+    }
+    return LocalVault.instance;
+  }
+
+  private async open(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    const request = indexedDB.open(VAULT_DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE);
+    };
+    this.db = await requestToPromise(request);
+    // Let deleteDatabase() from other tabs proceed
+    this.db.onversionchange = () => this.close();
+    return this.db;
+  }
+
+  private close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private async read<T>(store: string, key: string): Promise<T | undefined> {
+    const db = await this.open();
+    return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(key));
+  }
+
+  private async write(store: string, key: string, value: unknown): Promise<void> {
+    const db = await this.open();
+    await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false, // Non-extractable: the key can never be exported from memory
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private async encrypt(key: CryptoKey, plaintext: string): Promise<EncryptedRecord> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      new TextEncoder().encode(plaintext)
+    );
+    return { iv, ciphertext };
+  }
+
+  private async decrypt(key: CryptoKey, record: EncryptedRecord): Promise<string> {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv }, key, record.ciphertext);
+    return new TextDecoder().decode(plaintext);
+  }
+
+  /**
+   * Checks whether a vault has been created on this device.
+   * Does not create the database as a side effect.
+   */
+  async exists(): Promise<boolean> {
+    if (!('indexedDB' in window)) return false;
+
+    if ('databases' in indexedDB) {
+      const databases = await indexedDB.databases();
+      if (!databases.some(db => db.name === VAULT_DB_NAME)) return false;
+    }
+
+    try {
+      return (await this.read<VaultHeader>(META_STORE, HEADER_KEY)) !== undefined;
+    } catch {
+      return false;
+    }
+  }
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Creates a new vault protected by the given passphrase and unlocks it.
+   *
+   * @throws Error if the passphrase is too short
+   */
+  async create(passphrase: string): Promise<void> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const key = await this.deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const { iv, ciphertext } = await this.encrypt(key, VERIFIER_TEXT);
+
+    const header: VaultHeader = {
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      verifierIv: iv,
+      verifier: ciphertext
+    };
+    await this.write(META_STORE, HEADER_KEY, header);
+    this.key = key;
+  }
+
+  /**
+   * Unlocks an existing vault.
+   *
+   * @throws Error if no vault exists or the passphrase is wrong
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const header = await this.read<VaultHeader>(META_STORE, HEADER_KEY);
+    if (!header) {
+      throw new Error('No vault found on this device');
+    }
+
+    const key = await this.deriveKey(passphrase, header.salt, header.iterations);
+    try {
+      const verifier = await this.decrypt(key, { iv: header.verifierIv, ciphertext: header.verifier });
+      if (verifier !== VERIFIER_TEXT) throw new Error();
+    } catch {
+      // AES-GCM authentication failure: wrong passphrase (or tampered header)
+      throw new Error('Incorrect passphrase');
+    }
+    this.key = key;
+  }
+
+  /**
+   * Forgets the in-memory key. The encrypted data stays on disk.
+   */
+  lock(): void {
+    this.key = null;
+    this.close();
+  }
+
+  /**
+   * Encrypts and stores a JSON-serializable snapshot, replacing the previous one.
+   */
+  async save(data: unknown): Promise<void> {
+    if (!this.key) {
+      throw new Error('Vault is locked');
+    }
+    const record = await this.encrypt(this.key, JSON.stringify(data));
+    await this.write(DATA_STORE, SNAPSHOT_KEY, record);
+  }
+
+  /**
+   * Decrypts the stored snapshot.
+   *
+   * @returns The snapshot, or null if nothing has been saved yet
+   */
+  async load<T>(): Promise<T | null> {
+    if (!this.key) {
+      throw new Error('Vault is locked');
+    }
+    const record = await this.read<EncryptedRecord>(DATA_STORE, SNAPSHOT_KEY);
+    if (!record) return null;
+    return safeJsonParse<T>(await this.decrypt(this.key, record));
+  }
+
+  /**
+   * Permanently deletes the vault database and forgets the key.
+   */
+  async destroy(): Promise<void> {
+    this.lock();
+    if (!('indexedDB' in window)) return;
+    await new Promise<void>((resolve) => {
+      const request = indexedDB.deleteDatabase(VAULT_DB_NAME);
+      request.onsuccess = () => resolve();
+      request.onerror = () => resolve();
+      request.onblocked = () => resolve();
+    });
+  }
+}
+
+export const localVault = LocalVault.getInstance();
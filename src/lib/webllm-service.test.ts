@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { WebLLMService } from './webllm-service';
+import { createCustomModel } from './custom-models';
+import { setCustomModels } from './model-config';
+import { UnverifiedFilesError } from './inference-errors';
+
+describe('WebLLMService model loading', () => {
+  afterEach(() => {
+    setCustomModels([]);
+  });
+
+  it('drops the engine when a load fails after creating it', async () => {
+    // The pinned library is refused once the engine exists, before any download
+    const model = createCustomModel({
+      id: 'Pinned-1B-q4f32_1-MLC',
+      modelUrl: 'https://huggingface.co/example/Pinned-1B-q4f32_1-MLC',
+      modelLibUrl: 'http://localhost:8080/libs/pinned.wasm',
+      vramRequiredMB: 1024,
+      sha256: { 'pinned.wasm': 'a'.repeat(64) }
+    });
+    setCustomModels([model]);
+    const service = new WebLLMService();
+
+    await expect(service.initializeModel(model)).rejects.toBeInstanceOf(UnverifiedFilesError);
+    expect(service.isModelLoaded()).toBe(false);
+    expect(service.getCurrentModel()).toBeNull();
+
+    await expect(service.unloadModel()).resolves.toBeUndefined();
+    expect(service.isModelLoaded()).toBe(false);
+  });
+});
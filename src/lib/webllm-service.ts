@@ -2,8 +2,20 @@
 // Note: 'any' types are necessary for WebLLM library integration and browser GPU APIs
 
 import * as webllm from '@mlc-ai/web-llm';
+import { selectModelVariant } from './model-config';
 import type { ModelConfig } from './model-config';
 import { sanitizeInput } from './security';
+import { normalizeGenerationSettings } from './generation-settings';
+import type { BackendCapabilities, GenerateOptions, InferenceBackend, LoadProgressCallback } from './inference-backend';
+import { CancelledError, classifyEngineError, OutOfMemoryError, WebGPUUnavailableError } from './inference-errors';
+import { DownloadTracker } from './download-progress';
+import { GenerationTimer, toFinishReason } from './generation-stats';
+import type { GenerationStats } from './generation-stats';
+import { supportsThinkingToggle } from './reasoning';
+import type { Reasoning } from './reasoning';
+import { assertPinnedHashes, recordModelUse, verifyModelLibrary, verifyPinnedHashes } from './model-cache';
+import { getAppConfig } from './model-sources';
+import { requestGpuAdapter } from './hardware-detect';
 
 // Development-only logging
 const log = {
@@ -12,16 +24,42 @@ const log = {
   error: (...args: any[]) => console.error(...args) // Always log errors
 };
 
+/**
+ * One candidate reply for an assistant message slot.
+ */
+export interface MessageVariant {
+  /** Variant text content */
+  content: string;
+  /** Timestamp when the variant was generated */
+  timestamp: Date;
+  /** Performance figures for this variant */
+  stats?: GenerationStats;
+  /** Reasoning that preceded this variant */
+  reasoning?: Reasoning;
+}
+
 /**
  * Represents a chat message in the conversation history.
  */
 export interface ChatMessage {
+  /** Stable identifier for the message within its conversation */
+  id: string;
+  /** Previous message in the conversation tree (null/undefined for the first message) */
+  parentId?: string | null;
   /** Message role: 'user', 'assistant', or 'system' */
   role: 'user' | 'assistant' | 'system';
-  /** Message text content */
+  /** Message text content (for regenerated replies: the active variant) */
   content: string;
   /** Timestamp when the message was created */
   timestamp: Date;
+  /** Alternative replies produced by "regenerate" (assistant messages only) */
+  variants?: MessageVariant[];
+  /** Index into `variants` of the reply currently shown and sent as context */
+  activeVariant?: number;
+  /** Token counts and timing of the reply (assistant messages only) */
+  stats?: GenerationStats;
+  /** The model's reasoning before `content`; never sent back as context */
+  reasoning?: Reasoning;
 }
 
 /**
@@ -43,6 +81,7 @@ export interface GenerationProgress {
  * - Loading AI models with progress tracking
  * - Generating chat responses with streaming support
  * - Managing model lifecycle (unloading, switching models)
+ * - Optionally hosting the engine in a Web Worker (see setWorkerMode)
  *
  * Privacy Notes:
  * - All inference happens in-browser using WebGPU/WebGL/WASM
@@ -61,18 +100,26 @@ export interface GenerationProgress {
  *
  * // Generate a response
  * const response = await service.generateResponse(
- *   [{ role: 'user', content: 'Hello!', timestamp: new Date() }],
- *   (token) => console.log(token) // Stream tokens as they're generated
+ *   [{ id: 'm1', role: 'user', content: 'Hello!', timestamp: new Date() }],
+ *   { onToken: (token) => console.log(token) } // Stream tokens as they're generated
  * );
  * ```
  */
-export class WebLLMService {
-  private engine: webllm.MLCEngine | null = null;
+export class WebLLMService implements InferenceBackend {
+  readonly kind = 'webllm' as const;
+  private engine: webllm.MLCEngineInterface | null = null;
+  private worker: Worker | null = null;
+  private useWorker = false;
   private currentModel: string | null = null;
+  // Quantized build of currentModel the engine loaded (its WebLLM model id)
+  private currentBuild: string | null = null;
+  // Whether the loaded model's reasoning can be switched off (Qwen3)
+  private thinkingSwitchable = false;
   private isLoading = false;
   private loadingProgress = 0;
   private loadingStatus = '';
   private abortController: AbortController | null = null;
+  private loadController: AbortController | null = null;
 
   private async cleanup(): Promise<void> {
     if (this.engine) {
@@ -83,11 +130,30 @@ export class WebLLMService {
       }
       this.engine = null;
     }
+    // Terminating the worker releases its GPU device and WASM heap
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
     this.currentModel = null;
     this.loadingProgress = 0;
     this.loadingStatus = '';
   }
 
+  /**
+   * Describes this backend: in-browser, downloads models, and counts tokens
+   * exactly unless the engine runs in a worker.
+   *
+   * @returns Capability flags for the UI
+   */
+  getCapabilities(): BackendCapabilities {
+    return {
+      inBrowser: true,
+      requiresDownload: true,
+      exactTokenCount: !this.useWorker
+    };
+  }
+
   /**
    * Initializes and loads an AI model for inference.
    *
@@ -95,12 +161,16 @@ export class WebLLMService {
    * the WebLLM engine. Provides real-time progress updates during download.
    *
    * The model is cached in IndexedDB for offline use after first download.
-   * Switching models automatically unloads the previous model to free memory.
+   * Switching models automatically unloads the previous model to free memory,
+   * and a load that fails or is cancelled leaves no model loaded.
    *
    * @param modelConfig - Configuration for the model to load
-   * @param onProgress - Optional callback for progress updates (0-100%, status message)
+   * @param onProgress - Optional callback for progress updates (0-100%, status message,
+   *                     and byte counts/throughput while weights download)
    * @returns Promise that resolves when model is fully loaded
-   * @throws Error if model loading fails or if another model is already loading
+   * @throws CancelledError if cancelLoad() is called while loading
+   * @throws InferenceError for recognised failures (no WebGPU, out of memory, download failed),
+   *         Error otherwise or if another model is already loading
    *
    * @example
    * ```typescript
@@ -114,7 +184,7 @@ export class WebLLMService {
    */
   async initializeModel(
     modelConfig: ModelConfig,
-    onProgress?: (progress: number, status: string) => void
+    onProgress?: LoadProgressCallback
   ): Promise<void> {
     if (this.isLoading) {
       throw new Error('Model is already loading');
@@ -131,6 +201,8 @@ export class WebLLMService {
     }
 
     this.isLoading = true;
+    const loadController = new AbortController();
+    this.loadController = loadController;
     this.loadingProgress = 0;
     this.loadingStatus = 'Initializing model...';
     onProgress?.(this.loadingProgress, this.loadingStatus);
@@ -141,13 +213,16 @@ export class WebLLMService {
 
     // AUTOMATIC: Check WebGPU availability (will auto-fallback to WebGL if unavailable)
     let hasWebGPU = false;
+    let supportsShaderF16 = false;
     let gpuName = 'Unknown GPU';
 
     if (!isIOS && 'gpu' in navigator) {
       try {
-        const adapter = await (navigator as any).gpu.requestAdapter();
+        // The adapter WebLLM will get, so the build matches its features
+        const adapter = await requestGpuAdapter();
         if (adapter) {
           hasWebGPU = true;
+          supportsShaderF16 = adapter.features?.has('shader-f16') ?? false;
 
           // Get GPU info
           try {
@@ -197,14 +272,30 @@ export class WebLLMService {
     }
 
     try {
+      // q4f16 builds need shader-f16; older GPUs (many Intel iGPUs) get the q4f32 build
+      const variant = selectModelVariant(modelConfig, supportsShaderF16);
+      if (!variant) {
+        throw hasWebGPU
+          ? new WebGPUUnavailableError(
+            'This model is only built with 16-bit float shaders (shader-f16), which your GPU does not support. ' +
+            'Pick a model that offers a q4f32 build.'
+          )
+          : new WebGPUUnavailableError();
+      }
+      log.info('[WebLLM] Loading build', variant.id, supportsShaderF16 ? '(shader-f16 available)' : '(no shader-f16)');
+
       // Create the engine with privacy-focused configuration
       this.loadingStatus = hasWebGPU ? 'Initializing WebGPU engine...' : (isIOS ? 'Initializing WebGL engine...' : 'Creating ML engine...');
       onProgress?.(5, this.loadingStatus);
 
       // Initialize with real-time progress tracking
       // Force WebGL on iOS/mobile since WebGPU is not reliably available
+      const tracker = new DownloadTracker();
       const engineConfig: any = {
         initProgressCallback: (report: any) => {
+          // A cancelled engine may still report while it winds down
+          if (loadController.signal.aborted) return;
+
           // Update progress in real-time
           if (report.progress !== undefined && report.progress !== null) {
             // Convert progress (0-1) to percentage (0-100)
@@ -239,19 +330,26 @@ export class WebLLMService {
               this.loadingStatus += ` (${elapsed}s)`;
             }
 
-            // Include descriptive text if provided
-            if (report.text && report.text.length > 0) {
+            // Weight shards: byte counts replace WebLLM's long status line
+            const download = tracker.update(report) ?? undefined;
+            if (download) {
+              this.loadingStatus = download.phase === 'download'
+                ? 'Downloading model weights...'
+                : 'Loading model into memory...';
+            } else if (report.text && report.text.length > 0) {
               // Use the actual text from WebLLM for more accuracy
               this.loadingStatus = report.text;
             }
 
-            onProgress?.(this.loadingProgress, this.loadingStatus);
+            onProgress?.(this.loadingProgress, this.loadingStatus, download);
           }
         }
       };
 
       // Configure backend - WebLLM will auto-select best available (WebGPU > WebGL > CPU)
       engineConfig.logLevel = 'INFO';
+      // Prebuilt models plus any the user registered, from the mirror if one is set
+      engineConfig.appConfig = getAppConfig();
 
       if (hasWebGPU) {
         log.info('[WebLLM] ✓ Ready - WebGPU enabled for maximum performance');
@@ -262,13 +360,37 @@ export class WebLLMService {
         log.info('[WebLLM] 💡 Tip: For 10x faster performance, enable WebGPU in chrome://flags');
       }
 
-      this.engine = new webllm.MLCEngine(engineConfig);
+      if (this.useWorker && typeof Worker !== 'undefined') {
+        log.info('[WebLLM] Running engine in a Web Worker');
+        this.worker = new Worker(new URL('./webllm-worker.ts', import.meta.url), { type: 'module' });
+        this.engine = new webllm.WebWorkerMLCEngine(this.worker, engineConfig);
+      } else {
+        this.engine = new webllm.MLCEngine(engineConfig);
+      }
 
       this.loadingStatus = hasWebGPU ? 'Starting GPU-accelerated download...' : 'Starting model download...';
       onProgress?.(10, this.loadingStatus);
 
-      // Load the model with progress tracking
-      await this.engine.reload(modelConfig.id);
+      // Load the model with progress tracking. Shards already in the cache are
+      // skipped, so a load after a cancelled or failed one resumes from them.
+      const cancelled = new Promise<never>((_, reject) => {
+        loadController.signal.addEventListener('abort', () => reject(new CancelledError('Model loading')), { once: true });
+      });
+
+      // Pinned digests: the model library (the only code) is checked before it
+      // can run. The weights, tokenizer and config only exist once reload has
+      // downloaded them; any that fail unload the engine before the first reply.
+      if (modelConfig.sha256) {
+        assertPinnedHashes(await Promise.race([verifyModelLibrary(variant.id), cancelled]));
+      }
+
+      await Promise.race([this.engine.reload(variant.id), cancelled]);
+
+      if (modelConfig.sha256) {
+        this.loadingStatus = 'Verifying model files...';
+        onProgress?.(99, this.loadingStatus);
+        assertPinnedHashes(await verifyPinnedHashes(variant.id));
+      }
 
       // Update progress to 100% when loading is complete
       this.loadingProgress = 100;
@@ -276,47 +398,63 @@ export class WebLLMService {
       onProgress?.(this.loadingProgress, this.loadingStatus);
 
       this.currentModel = modelConfig.id;
+      this.currentBuild = variant.id;
+      this.thinkingSwitchable = supportsThinkingToggle(modelConfig);
+      recordModelUse(variant.id);
     } catch (error) {
+      // A failed load leaves no engine behind. A worker engine cannot answer
+      // unload() mid-load; terminating it stops its downloads and frees the GPU.
+      if (this.worker) {
+        this.worker.terminate();
+        this.worker = null;
+        this.engine = null;
+      }
+      await this.cleanup();
+
+      if (loadController.signal.aborted) {
+        log.info('[WebLLM] Model loading cancelled');
+        this.loadingStatus = 'Download paused';
+        onProgress?.(0, this.loadingStatus);
+        throw new CancelledError('Model loading');
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       log.error('[WebLLM] Model loading failed:', errorMessage, error);
       this.loadingStatus = `Error loading model: ${errorMessage}`;
       onProgress?.(0, this.loadingStatus);
 
-      // Provide user-friendly error messages for common issues
-      let userFriendlyMessage = errorMessage;
-
-      if (errorMessage.toLowerCase().includes('webgpu') || errorMessage.toLowerCase().includes('gpu')) {
-        // Special message for mobile devices
-        if (isMobile) {
-          userFriendlyMessage = 'GPU initialization failed on your mobile device. This usually means:\n\n' +
-            '1. Your browser needs WebGL enabled (check browser settings)\n' +
-            '2. Your device might be low on memory (close other apps)\n' +
-            '3. Try a smaller model (Qwen2 0.5B or Llama 3.2 1B work best on mobile)\n\n' +
-            'Check browser console for more details.';
-        } else {
-          userFriendlyMessage = 'GPU acceleration not available. Your browser or device may not support it. Try Chrome/Edge on desktop, or select a smaller model.';
-        }
-      } else if (errorMessage.toLowerCase().includes('network') || errorMessage.toLowerCase().includes('fetch') || errorMessage.toLowerCase().includes('download')) {
-        userFriendlyMessage = 'Network error while downloading model. Check your internet connection and try again.';
-      } else if (errorMessage.toLowerCase().includes('memory') || errorMessage.toLowerCase().includes('oom') || errorMessage.toLowerCase().includes('out of memory')) {
-        if (isMobile) {
-          userFriendlyMessage = 'Out of memory on your mobile device. Try:\n\n' +
-            '1. Close other apps and browser tabs\n' +
-            '2. Restart your browser\n' +
-            '3. Use a smaller model (Qwen2 0.5B only needs 2GB RAM)';
-        } else {
-          userFriendlyMessage = 'Out of memory. This model is too large for your device. Please select a smaller model from the Tiny category.';
-        }
-      } else if (errorMessage.toLowerCase().includes('abort') || errorMessage.toLowerCase().includes('cancel')) {
-        userFriendlyMessage = 'Model loading was cancelled.';
+      // Map engine failures to typed errors; mobile devices get their own advice
+      const typed = classifyEngineError(error, 'load');
+      if (typed?.code === 'WEBGPU_UNAVAILABLE' && isMobile) {
+        throw new WebGPUUnavailableError(
+          'Enable WebGL in your browser settings, close other apps to free memory, ' +
+          'or try Qwen2 0.5B or Llama 3.2 1B, which work best on mobile.',
+          error
+        );
       }
-
-      throw new Error(userFriendlyMessage);
+      if (typed?.code === 'OUT_OF_MEMORY' && isMobile) {
+        throw new OutOfMemoryError(
+          'Close other apps and browser tabs, restart your browser, or use Qwen2 0.5B (only needs 2GB RAM).',
+          error
+        );
+      }
+      throw typed ?? error;
     } finally {
       this.isLoading = false;
+      this.loadController = null;
     }
   }
 
+  /**
+   * Cancels the model load in progress, if any.
+   *
+   * The pending initializeModel call rejects with CancelledError. Shards that
+   * finished downloading stay in the cache for the next attempt.
+   */
+  cancelLoad(): void {
+    this.loadController?.abort();
+  }
+
   /**
    * Generates an AI response for a conversation using the loaded model.
    *
@@ -325,32 +463,31 @@ export class WebLLMService {
    * System instructions can be prepended to customize AI behavior.
    *
    * @param messages - Array of conversation messages (user and assistant)
-   * @param onToken - Optional callback invoked for each generated token (streaming)
-   * @param maxTokens - Maximum tokens to generate (default: 2048)
-   * @param systemInstruction - Optional system prompt to customize behavior
+   * @param options - Streaming callback, system prompt and sampling settings
    * @returns Promise that resolves with the complete generated response
-   * @throws Error if model is not initialized or generation fails
+   * @throws DeviceLostError if the GPU is lost (the model must be reloaded), another
+   *         InferenceError for other recognised failures, Error otherwise
    *
    * @example
    * ```typescript
    * const messages = [
-   *   { role: 'user', content: 'What is AI?', timestamp: new Date() }
+   *   { id: 'm1', role: 'user', content: 'What is AI?', timestamp: new Date() }
    * ];
    *
-   * const response = await service.generateResponse(
-   *   messages,
-   *   (token) => console.log(token), // Stream tokens
-   *   2048,
-   *   'You are a helpful assistant. Be concise.'
-   * );
+   * const response = await service.generateResponse(messages, {
+   *   onToken: (token) => console.log(token), // Stream tokens
+   *   systemInstruction: 'You are a helpful assistant. Be concise.',
+   *   settings: { temperature: 0.2, maxTokens: 2048 }
+   * });
    * ```
    */
   async generateResponse(
     messages: ChatMessage[],
-    onToken?: (token: string) => void,
-    maxTokens = 1024, // Reduced from 2048 for consumer GPUs (RTX 4050/3060)
-    systemInstruction?: string
+    options: GenerateOptions = {}
   ): Promise<string> {
+    const { onToken, onStats, systemInstruction } = options;
+    const settings = normalizeGenerationSettings(options.settings);
+
     if (!this.engine) {
       throw new Error('Model not initialized');
     }
@@ -375,58 +512,76 @@ export class WebLLMService {
         });
       }
 
-      // Set up abort controller for this generation
-      this.abortController = new AbortController();
+      // Set up abort controller for this generation (kept locally: cancelGeneration clears the field)
+      const abortController = new AbortController();
+      this.abortController = abortController;
 
       // Use chat completions API for streaming
-      // Optimized settings for consumer GPUs (RTX 4050/3060/etc)
+      const timer = new GenerationTimer();
       const completion = await this.engine.chat.completions.create({
         messages: chatMessages as webllm.ChatCompletionMessageParam[],
-        max_tokens: Math.min(maxTokens, 1024), // Cap at 1024 for consumer GPU performance
-        temperature: 0.7, // Good balance for quality and diversity
-        top_p: 0.95, // Slightly reduced for faster sampling
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+        top_p: settings.topP,
+        frequency_penalty: settings.frequencyPenalty,
+        presence_penalty: settings.presencePenalty,
+        stop: settings.stop.length > 0 ? settings.stop : undefined,
+        seed: settings.seed ?? undefined,
+        // WebLLM pre-fills an empty <think> block; other models would see it as text
+        extra_body: !settings.thinking && this.thinkingSwitchable ? { enable_thinking: false } : undefined,
         stream: true,
-        // Optional: reduce context window for consumer GPUs
-        // This helps prevent OOM errors on GPUs with limited VRAM
+        // The last chunk then carries token counts and the engine's own timings
+        stream_options: { include_usage: true }
       });
 
       let fullResponse = '';
+      let finishReason: string | null = null;
+      let usage: webllm.CompletionUsage | undefined;
 
       for await (const chunk of completion) {
-        if (this.abortController.signal.aborted) {
+        if (abortController.signal.aborted) {
           break;
         }
 
         const delta = chunk.choices[0]?.delta?.content;
         if (delta) {
           fullResponse += delta;
+          timer.token();
           if (onToken) {
             onToken(delta);
           }
         }
+        finishReason = chunk.choices[0]?.finish_reason ?? finishReason;
+        usage = chunk.usage ?? usage;
       }
 
+      onStats?.(timer.finish(
+        abortController.signal.aborted ? 'abort' : toFinishReason(finishReason),
+        usage && {
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
+          timeToFirstToken: usage.extra?.time_to_first_token_s,
+          tokensPerSecond: usage.extra?.decode_tokens_per_s,
+          prefillTokensPerSecond: usage.extra?.prefill_tokens_per_s
+        }
+      ));
       return fullResponse;
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Generation cancelled');
-      }
+      const typed = classifyEngineError(error, 'generate');
 
-      // Check for GPU device loss errors
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const isGPULost = errorMessage.includes('Instance reference no longer exists') ||
-                        errorMessage.includes('Device was lost') ||
-                        errorMessage.includes('GPUDeviceLostInfo') ||
-                        errorMessage.includes('OperationError');
-
-      if (isGPULost) {
+      if (typed?.code === 'DEVICE_LOST') {
         // Clean up the engine since GPU context is lost
         this.engine = null;
         this.currentModel = null;
-        throw new Error('GPU_DEVICE_LOST: GPU ran out of memory. Please reload the model or try a smaller one.');
+        this.worker?.terminate();
+        this.worker = null;
+      }
+      if (typed) {
+        throw typed;
       }
 
       // Response generation error handled
+      const errorMessage = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to generate response: ${errorMessage}`);
     } finally {
       this.abortController = null;
@@ -434,20 +589,36 @@ export class WebLLMService {
   }
 
   /**
-   * Estimates the token count for a given text string.
+   * Counts the tokens in a text string.
    *
-   * Uses a rough heuristic (~4 characters per token) since WebLLM
-   * doesn't expose the tokenizer directly.
+   * Uses the loaded model's own tokenizer when available. WebLLM keeps it
+   * private, so this falls back to a rough heuristic (~4 characters per
+   * token) if the internals are unreachable, no model is loaded, or the
+   * engine runs in a Web Worker.
    *
-   * @param text - The text to estimate tokens for
-   * @returns Promise that resolves with estimated token count
+   * @param text - The text to count tokens for
+   * @returns Promise that resolves with the token count
    */
   async getTokenCount(text: string): Promise<number> {
-    // Rough estimation - WebLLM doesn't expose tokenizer directly
+    const tokenizer = this.getTokenizer();
+    if (tokenizer) {
+      try {
+        return tokenizer.encode(text).length;
+      } catch (error) {
+        log.warn('Tokenizer failed, falling back to estimate:', error);
+      }
+    }
     // Average is ~4 characters per token for English text
     return Math.ceil(text.length / 4);
   }
 
+  // The pipeline (and its tokenizer) is a private field of MLCEngine
+  private getTokenizer(): { encode: (text: string) => ArrayLike<number> } | null {
+    if (!this.engine || !this.currentModel) return null;
+    const pipeline = (this.engine as any).loadedModelIdToPipeline?.get?.(this.currentBuild);
+    return pipeline?.tokenizer ?? null;
+  }
+
   /**
    * Checks if an AI model is currently loaded and ready for inference.
    *
@@ -475,9 +646,48 @@ export class WebLLMService {
     if (this.abortController) {
       this.abortController.abort();
       this.abortController = null;
+      // Stop decoding in the engine too; a worker would otherwise keep generating
+      try {
+        this.engine?.interruptGenerate();
+      } catch {
+        // Engine already gone
+      }
     }
   }
 
+  /**
+   * Chooses whether the engine runs in a Web Worker or on the main thread.
+   *
+   * Takes effect the next time a model is loaded; a loaded model keeps
+   * running where it was started.
+   *
+   * @param enabled - true to host the engine in a dedicated worker
+   */
+  setWorkerMode(enabled: boolean): void {
+    this.useWorker = enabled;
+  }
+
+  /**
+   * Checks whether the currently loaded engine runs in a Web Worker.
+   *
+   * @returns true if a worker-hosted engine is active
+   */
+  isRunningInWorker(): boolean {
+    return this.worker !== null;
+  }
+
+  /**
+   * Unloads the current model and frees GPU memory.
+   *
+   * The service can load another model afterwards.
+   *
+   * @returns Promise that resolves when the model is unloaded
+   */
+  async unloadModel(): Promise<void> {
+    this.cancelGeneration();
+    await this.cleanup();
+  }
+
   /**
    * Disposes of the service, unloading the model and freeing resources.
    *
@@ -0,0 +1,12 @@
+// WebLLM Worker Entry
+// Hosts the inference engine in a dedicated worker so model loading and token
+// generation don't block React rendering. WebLLMService talks to it through
+// webllm.WebWorkerMLCEngine, which mirrors the MLCEngine API over postMessage.
+
+import { WebWorkerMLCEngineHandler } from '@mlc-ai/web-llm';
+
+const handler = new WebWorkerMLCEngineHandler();
+
+self.onmessage = (msg: MessageEvent) => {
+  handler.onmessage(msg);
+};
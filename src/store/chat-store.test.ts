@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useChatStore, createMessage } from './chat-store';
+import { MockBackend } from '../lib/mock-backend';
+import { MODELS } from '../lib/model-config';
+import { getLeaves } from '../lib/conversation-tree';
+import type { GenerationStats } from '../lib/generation-stats';
+
+const initialState = useChatStore.getState();
+const model = MODELS.qwen2_0_5b;
+
+const activeConversation = () => {
+  const state = useChatStore.getState();
+  const conversation = state.conversations.find(c => c.id === state.activeConversationId);
+  if (!conversation) throw new Error('No active conversation');
+  return conversation;
+};
+
+// What ChatInterface does for one turn: a user message, then the reply streamed into an assistant message
+const sendTurn = async (backend: MockBackend, content: string) => {
+  const store = useChatStore.getState();
+  const conversationId = store.activeConversationId;
+  const userMessage = createMessage('user', content);
+  store.addMessage(userMessage);
+  const assistantMessage = createMessage('assistant', '');
+  store.addMessage(assistantMessage);
+
+  let reply = '';
+  await backend.generateResponse(useChatStore.getState().messages.slice(0, -1), {
+    onToken: (token) => {
+      reply += token;
+      useChatStore.getState().updateMessage(conversationId, assistantMessage.id, reply);
+    },
+    onStats: (stats) => useChatStore.getState().setMessageStats(conversationId, assistantMessage.id, stats)
+  });
+  return { userMessage, assistantMessage };
+};
+
+describe('chat store', () => {
+  let backend: MockBackend;
+
+  beforeEach(async () => {
+    useChatStore.setState(initialState, true);
+    useChatStore.getState().setSelectedModel(model);
+    backend = new MockBackend({ tokenDelayMs: 0, loadDurationMs: 0 });
+    await backend.initializeModel(model);
+  });
+
+  it('streams a reply into the assistant message and keeps its stats', async () => {
+    const { assistantMessage } = await sendTurn(backend, 'Hello there');
+
+    const { messages } = useChatStore.getState();
+    expect(messages.map(m => m.role)).toEqual(['user', 'assistant']);
+    expect(messages[1].content).toBe('Mock reply #1. You said: "Hello there"');
+    expect(messages[1].stats).toMatchObject({ finishReason: 'stop', completionTokens: 7 });
+    expect(messages[1].parentId).toBe(messages[0].id);
+    expect(activeConversation().activeLeafId).toBe(assistantMessage.id);
+    expect(activeConversation().title).toBe('Hello there');
+  });
+
+  it('marks a reply cut off by the token limit', async () => {
+    const store = useChatStore.getState();
+    const assistantMessage = createMessage('assistant', '');
+    store.addMessage(createMessage('user', 'Count'));
+    store.addMessage(assistantMessage);
+
+    let stats: GenerationStats | null = null;
+    const words = Array.from({ length: 20 }, (_, i) => `word${i + 1}`);
+    backend.scriptReplies(words.join(' '));
+    const reply = await backend.generateResponse(useChatStore.getState().messages, {
+      settings: { maxTokens: 16 },
+      onStats: (result) => { stats = result; }
+    });
+    store.updateMessage(store.activeConversationId, assistantMessage.id, reply);
+    store.setMessageStats(store.activeConversationId, assistantMessage.id, stats);
+
+    expect(useChatStore.getState().messages[1]).toMatchObject({
+      content: words.slice(0, 16).join(' '),
+      stats: { finishReason: 'length', completionTokens: 16 }
+    });
+  });
+
+  it('keeps regenerated replies as variants', async () => {
+    const { assistantMessage } = await sendTurn(backend, 'Hi');
+    const conversationId = useChatStore.getState().activeConversationId;
+
+    useChatStore.getState().startRegeneration(conversationId, assistantMessage.id);
+    expect(useChatStore.getState().messages[1]).toMatchObject({ content: '', activeVariant: 1, stats: undefined });
+
+    backend.scriptReplies('A second take');
+    const reply = await backend.generateResponse(useChatStore.getState().messages.slice(0, 1));
+    useChatStore.getState().updateMessage(conversationId, assistantMessage.id, reply);
+
+    const regenerated = useChatStore.getState().messages[1];
+    expect(regenerated.variants?.map(v => v.content)).toEqual(['Mock reply #1. You said: "Hi"', 'A second take']);
+
+    useChatStore.getState().selectVariant(assistantMessage.id, 0);
+    expect(useChatStore.getState().messages[1]).toMatchObject({
+      content: 'Mock reply #1. You said: "Hi"',
+      activeVariant: 0,
+      stats: { finishReason: 'stop' }
+    });
+  });
+
+  it('branches from an earlier message and switches between branches', async () => {
+    const first = await sendTurn(backend, 'First question');
+    await sendTurn(backend, 'Follow-up');
+    expect(useChatStore.getState().messages).toHaveLength(4);
+
+    // Continue from the first reply instead of the follow-up
+    useChatStore.getState().branchFrom(first.assistantMessage.id);
+    expect(useChatStore.getState().messages).toHaveLength(2);
+    const alternative = await sendTurn(backend, 'Another follow-up');
+
+    const conversation = activeConversation();
+    expect(conversation.messages).toHaveLength(6);
+    expect(getLeaves(conversation.messages)).toHaveLength(2);
+    expect(useChatStore.getState().messages.map(m => m.content)).toEqual([
+      'First question',
+      'Mock reply #1. You said: "First question"',
+      'Another follow-up',
+      'Mock reply #2. You said: "Another follow-up"'
+    ]);
+
+    const followUp = conversation.messages.find(m => m.content === 'Follow-up');
+    useChatStore.getState().switchBranch(followUp!.id);
+    expect(useChatStore.getState().messages.map(m => m.content)).toContain('Follow-up');
+    useChatStore.getState().switchBranch(alternative.userMessage.id);
+    expect(activeConversation().activeLeafId).toBe(alternative.assistantMessage.id);
+  });
+
+  it('keeps streaming into a conversation that is no longer on screen', async () => {
+    const store = useChatStore.getState();
+    const conversationId = store.activeConversationId;
+    const assistantMessage = createMessage('assistant', '');
+    store.addMessage(createMessage('user', 'Background'));
+    store.addMessage(assistantMessage);
+
+    store.createConversation();
+    store.updateMessage(conversationId, assistantMessage.id, 'Finished later');
+
+    expect(useChatStore.getState().messages).toEqual([]);
+    const background = useChatStore.getState().conversations.find(c => c.id === conversationId);
+    expect(background?.messages.find(m => m.id === assistantMessage.id)?.content).toBe('Finished later');
+  });
+
+  it('budgets the context against the model of the conversation on screen', () => {
+    const store = useChatStore.getState();
+    const conversationId = store.activeConversationId;
+    store.setSelectedModel(MODELS.tinyllama_1b);
+    store.createConversation();
+    store.setSelectedModel(model);
+    store.switchConversation(conversationId);
+
+    // Past 75% of TinyLlama's 2048 tokens, well within the selected model's 4096
+    useChatStore.getState().updateContextTokenCount(2000);
+    expect(useChatStore.getState()).toMatchObject({ contextTokenCount: 2000, showContextWarning: true });
+  });
+
+  it('clears the conversation on screen', async () => {
+    await sendTurn(backend, 'Forget me');
+    useChatStore.getState().clearMessages();
+
+    expect(useChatStore.getState().messages).toEqual([]);
+    expect(activeConversation()).toMatchObject({ messages: [], activeLeafId: null });
+  });
+});
@@ -3,33 +3,157 @@
 
 import { create } from 'zustand';
 import type { ChatMessage } from '../lib/webllm-service';
+import { setCustomModels } from '../lib/model-config';
 import type { ModelConfig } from '../lib/model-config';
+import { generateSecureId } from '../lib/security';
+import { localVault } from '../lib/vault';
+import { getBranch, findBranchLeaf } from '../lib/conversation-tree';
+import { getContextWindow, CONTEXT_WARNING_RATIO, DEFAULT_CONTEXT_WINDOW } from '../lib/context-budget';
+import { DEFAULT_SERVER_URL } from '../lib/openai-compatible-backend';
+import type { ContextSummary } from '../lib/compaction';
+import type { DownloadProgress } from '../lib/download-progress';
+import { getDefaultModelMirror, getModelMirror, setModelMirror } from '../lib/model-sources';
+import type { BenchmarkResult } from '../lib/benchmark';
+import type { HardwareOverride } from '../lib/hardware-detect';
+import type { LoadErrorRecord } from '../lib/diagnostics';
+import { upgradeCustomModel } from '../lib/custom-models';
+import { formatGenerationStats } from '../lib/generation-stats';
+import type { GenerationStats } from '../lib/generation-stats';
+import type { Reasoning } from '../lib/reasoning';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  normalizeGenerationSettings,
+  type GenerationSettings
+} from '../lib/generation-settings';
+
+/**
+ * A named chat thread. Conversations live in memory only; each one keeps
+ * its own message history, model, system instruction and sampling settings.
+ *
+ * History is a tree: `messages` holds every message of every branch, linked
+ * by `parentId`, and the branch on screen ends at `activeLeafId`.
+ * `summaries` hold compacted stand-ins for older turns (see lib/compaction).
+ */
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: ChatMessage[];
+  activeLeafId: string | null;
+  /** Model the conversation was last used with */
+  model: ModelConfig | null;
+  systemInstruction: string;
+  generationSettings: GenerationSettings;
+  summaries: ContextSummary[];
+}
+
+/**
+ * Last-used OpenAI-compatible server (see lib/openai-compatible-backend).
+ */
+export interface LocalServerSettings {
+  baseUrl: string;
+  model: string;
+  contextWindow: number;
+}
+
+/**
+ * Encrypted vault state:
+ * - none: no vault on this device (in-memory only, the default)
+ * - locked: a vault exists but the passphrase has not been entered
+ * - unlocked: conversations and settings are saved encrypted on every change
+ */
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
+// Shape written to the vault (Dates become ISO strings via JSON)
+interface VaultSnapshot {
+  version: 1;
+  activeConversationId: string;
+  conversations: Conversation[];
+  settings: {
+    autoDeleteChats: boolean;
+    autoCompact?: boolean;
+    runInWorker?: boolean;
+    localServer?: LocalServerSettings;
+    customModels?: ModelConfig[];
+    modelMirrorUrl?: string;
+    benchmark?: BenchmarkResult | null;
+    hardwareOverride?: HardwareOverride;
+  };
+}
 
 export interface ChatState {
+  conversations: Conversation[];
+  activeConversationId: string;
+  // Mirrors of the active conversation, kept in sync by every action below
+  // (messages is the active branch, root first)
   messages: ChatMessage[];
   selectedModel: ModelConfig | null;
   isGenerating: boolean;
   modelLoadingProgress: number;
   modelLoadingStatus: string;
+  // Byte counts while model weights download (null outside downloads)
+  modelDownload: DownloadProgress | null;
   isDarkMode: boolean;
   autoDeleteChats: boolean;
+  autoCompact: boolean;
+  runInWorker: boolean;
+  localServer: LocalServerSettings;
+  // User-registered models (see lib/custom-models)
+  customModels: ModelConfig[];
+  // Local mirror model files are downloaded from ('' = Hugging Face, see lib/model-sources)
+  modelMirrorUrl: string;
+  // Last measured device speed (null until the user runs the benchmark)
+  benchmark: BenchmarkResult | null;
+  // RAM/VRAM entered by the user where detection is wrong (see lib/hardware-detect)
+  hardwareOverride: HardwareOverride;
+  // Most recent failed model load, for the diagnostics report (not saved)
+  lastLoadError: LoadErrorRecord | null;
   systemInstruction: string;
+  generationSettings: GenerationSettings;
   storageEnabled: boolean;
+  vaultStatus: VaultStatus;
   contextTokenCount: number;
   showContextWarning: boolean;
 
   // Actions
+  createConversation: () => string;
+  switchConversation: (id: string) => void;
+  renameConversation: (id: string, title: string) => void;
+  deleteConversation: (id: string) => void;
+  clearConversations: () => void;
   addMessage: (message: ChatMessage) => void;
+  updateMessage: (conversationId: string, messageId: string, content: string, reasoning?: Reasoning) => void;
+  setMessageStats: (conversationId: string, messageId: string, stats: GenerationStats | null) => void;
+  startRegeneration: (conversationId: string, messageId: string) => void;
+  selectVariant: (messageId: string, variantIndex: number) => void;
+  branchFrom: (messageId: string | null) => void;
+  switchBranch: (messageId: string) => void;
   clearMessages: () => void;
   clearAllHistory: () => void;
   setSelectedModel: (model: ModelConfig) => void;
   setGenerating: (isGenerating: boolean) => void;
-  setModelLoadingProgress: (progress: number, status: string) => void;
+  setModelLoadingProgress: (progress: number, status: string, download?: DownloadProgress) => void;
   toggleDarkMode: () => void;
   setAutoDeleteChats: (autoDelete: boolean) => void;
+  setAutoCompact: (autoCompact: boolean) => void;
+  setRunInWorker: (runInWorker: boolean) => void;
+  setLocalServer: (settings: LocalServerSettings) => void;
+  addCustomModels: (models: ModelConfig[]) => void;
+  removeCustomModel: (id: string) => void;
+  setModelMirrorUrl: (url: string) => void;
+  setBenchmark: (benchmark: BenchmarkResult | null) => void;
+  setHardwareOverride: (override: HardwareOverride) => void;
+  setLastLoadError: (error: LoadErrorRecord | null) => void;
+  addContextSummary: (conversationId: string, summary: ContextSummary) => void;
+  removeContextSummary: (conversationId: string, summaryId: string) => void;
   setSystemInstruction: (instruction: string) => void;
-  enableStorage: () => void;
-  disableStorage: () => void;
+  setGenerationSettings: (settings: Partial<GenerationSettings>) => void;
+  initVault: () => Promise<void>;
+  enableStorage: (passphrase: string) => Promise<void>;
+  unlockStorage: (passphrase: string) => Promise<void>;
+  lockStorage: () => Promise<void>;
+  disableStorage: () => Promise<void>;
   exportChat: () => string;
   updateContextTokenCount: (count: number) => void;
   dismissContextWarning: () => void;
@@ -47,43 +171,388 @@ const getInitialDarkMode = (): boolean => {
   return true; // Default to dark
 };
 
+const DEFAULT_CONVERSATION_TITLE = 'New chat';
+const MAX_TITLE_LENGTH = 60;
+
+// Quick estimate (~4 chars per token) used until the chat view reports the
+// exact count from the model's tokenizer via updateContextTokenCount
+const estimateTokens = (messages: ChatMessage[]): number => {
+  const totalChars = messages.reduce((sum, msg) => sum + msg.content.length, 0);
+  return Math.ceil(totalChars / 4);
+};
+
+const createEmptyConversation = (model: ModelConfig | null): Conversation => {
+  const now = new Date();
+  return {
+    id: generateSecureId(8),
+    title: DEFAULT_CONVERSATION_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    activeLeafId: null,
+    model,
+    systemInstruction: '',
+    generationSettings: { ...DEFAULT_GENERATION_SETTINGS },
+    summaries: []
+  };
+};
+
+// Derive a sidebar title from the first user message
+const deriveTitle = (content: string): string => {
+  const firstLine = content.split('\n')[0].trim();
+  return firstLine.length > MAX_TITLE_LENGTH
+    ? firstLine.slice(0, MAX_TITLE_LENGTH - 1) + '…'
+    : firstLine || DEFAULT_CONVERSATION_TITLE;
+};
+
+// Project a conversation onto the top-level mirror fields
+const activeFields = (conversation: Conversation) => {
+  const branch = getBranch(conversation.messages, conversation.activeLeafId);
+  const tokens = estimateTokens(branch);
+  return {
+    activeConversationId: conversation.id,
+    messages: branch,
+    systemInstruction: conversation.systemInstruction,
+    generationSettings: conversation.generationSettings,
+    contextTokenCount: tokens,
+    showContextWarning: tokens > getContextWindow(conversation.model) * CONTEXT_WARNING_RATIO
+  };
+};
+
+// Overwrite message content before dropping references (see clearAllHistory)
+const wipeConversation = ({ messages, summaries }: Conversation) => {
+  summaries.forEach(summary => {
+    (summary as any).content = crypto.getRandomValues(new Uint8Array(summary.content.length)).toString();
+  });
+  messages.forEach(msg => {
+    const len = msg.content.length;
+    (msg as any).content = crypto.getRandomValues(new Uint8Array(len)).toString();
+    (msg as any).role = '';
+    [msg, ...(msg.variants ?? [])].forEach(({ reasoning }) => {
+      if (reasoning) {
+        (reasoning as any).content = crypto.getRandomValues(new Uint8Array(reasoning.content.length)).toString();
+      }
+    });
+    msg.variants?.forEach(v => {
+      (v as any).content = crypto.getRandomValues(new Uint8Array(v.content.length)).toString();
+    });
+  });
+};
+
+/**
+ * Creates a message with a fresh identifier.
+ */
+export const createMessage = (role: ChatMessage['role'], content: string): ChatMessage => ({
+  id: generateSecureId(8),
+  role,
+  content,
+  timestamp: new Date()
+});
+
+// Rebuild Date fields lost in JSON serialization
+const reviveConversation = (conversation: Conversation): Conversation => ({
+  ...conversation,
+  createdAt: new Date(conversation.createdAt),
+  updatedAt: new Date(conversation.updatedAt),
+  // Vaults written before per-conversation sampling settings existed lack this field
+  generationSettings: normalizeGenerationSettings(conversation.generationSettings),
+  summaries: (conversation.summaries ?? []).map(summary => ({ ...summary, createdAt: new Date(summary.createdAt) })),
+  messages: conversation.messages.map(msg => ({
+    ...msg,
+    timestamp: new Date(msg.timestamp),
+    variants: msg.variants?.map(v => ({ ...v, timestamp: new Date(v.timestamp) }))
+  }))
+});
+
+const buildSnapshot = (state: ChatState): VaultSnapshot => ({
+  version: 1,
+  activeConversationId: state.activeConversationId,
+  // Empty drafts are not worth persisting
+  conversations: state.conversations.filter(c => c.messages.length > 0 || c.systemInstruction),
+  settings: {
+    autoDeleteChats: state.autoDeleteChats,
+    autoCompact: state.autoCompact,
+    runInWorker: state.runInWorker,
+    localServer: state.localServer,
+    customModels: state.customModels,
+    modelMirrorUrl: state.modelMirrorUrl,
+    benchmark: state.benchmark,
+    hardwareOverride: state.hardwareOverride
+  }
+});
+
+// The catalog lookups in model-config read the registry, so update it before
+// the store notifies components
+const withCustomModels = (customModels: ModelConfig[]) => {
+  setCustomModels(customModels);
+  return { customModels };
+};
+
+// Same for the download mirror; a saved URL that no longer validates is dropped
+const withModelMirror = (url: string) => {
+  try {
+    setModelMirror(url);
+  } catch {
+    setModelMirror('');
+  }
+  return { modelMirrorUrl: getModelMirror() };
+};
+
+const initialConversation = createEmptyConversation(null);
+
 export const useChatStore = create<ChatState>()((set, get) => ({
+  conversations: [initialConversation],
+  activeConversationId: initialConversation.id,
   messages: [],
   selectedModel: null,
   isGenerating: false,
   modelLoadingProgress: 0,
   modelLoadingStatus: '',
+  modelDownload: null,
   isDarkMode: getInitialDarkMode(),
   autoDeleteChats: false,
+  autoCompact: false,
+  runInWorker: false,
+  localServer: { baseUrl: DEFAULT_SERVER_URL, model: '', contextWindow: DEFAULT_CONTEXT_WINDOW },
+  customModels: [],
+  ...withModelMirror(getDefaultModelMirror()),
+  benchmark: null,
+  hardwareOverride: { memoryGB: null, vramGB: null },
+  lastLoadError: null,
   systemInstruction: '',
+  generationSettings: initialConversation.generationSettings,
   storageEnabled: false,
+  vaultStatus: 'none',
   contextTokenCount: 0,
   showContextWarning: false,
 
+  createConversation: () => {
+    const conversation = createEmptyConversation(get().selectedModel);
+    set((state) => ({
+      conversations: [conversation, ...state.conversations],
+      ...activeFields(conversation)
+    }));
+    return conversation.id;
+  },
+
+  switchConversation: (id: string) => {
+    const conversation = get().conversations.find(c => c.id === id);
+    if (!conversation) return;
+    set(activeFields(conversation));
+  },
+
+  renameConversation: (id: string, title: string) => {
+    const trimmed = title.trim().slice(0, MAX_TITLE_LENGTH);
+    if (!trimmed) return;
+    set((state) => ({
+      conversations: state.conversations.map(c =>
+        c.id === id ? { ...c, title: trimmed, updatedAt: new Date() } : c
+      )
+    }));
+  },
+
+  deleteConversation: (id: string) => {
+    const state = get();
+    const target = state.conversations.find(c => c.id === id);
+    if (!target) return;
+
+    wipeConversation(target);
+
+    let remaining = state.conversations.filter(c => c.id !== id);
+    if (remaining.length === 0) {
+      remaining = [createEmptyConversation(state.selectedModel)];
+    }
+
+    if (id === state.activeConversationId) {
+      set({ conversations: remaining, ...activeFields(remaining[0]) });
+    } else {
+      set({ conversations: remaining });
+    }
+  },
+
+  clearConversations: () => {
+    const state = get();
+    state.conversations.forEach(wipeConversation);
+    const conversation = createEmptyConversation(state.selectedModel);
+    set({ conversations: [conversation], ...activeFields(conversation) });
+  },
+
   addMessage: (message: ChatMessage) => {
     set((state) => {
-      const newMessages = [...state.messages, { ...message, timestamp: new Date() }];
+      const active = state.conversations.find(c => c.id === state.activeConversationId);
+      if (!active) return {};
 
-      // Estimate token count (rough: ~4 chars per token)
-      const totalChars = newMessages.reduce((sum, msg) => sum + msg.content.length, 0);
-      const estimatedTokens = Math.ceil(totalChars / 4);
+      const now = new Date();
+      // New messages continue the branch on screen
+      const newMessages = [...active.messages, { ...message, parentId: active.activeLeafId, timestamp: now }];
+      const isFirstUserMessage = message.role === 'user' &&
+        !active.messages.some(m => m.role === 'user');
 
-      // Show warning if context > 2048 tokens (consumer GPUs struggle with long context)
-      const showWarning = estimatedTokens > 2048;
+      const updated: Conversation = {
+        ...active,
+        messages: newMessages,
+        activeLeafId: message.id,
+        model: state.selectedModel ?? active.model,
+        updatedAt: now,
+        title: isFirstUserMessage && active.title === DEFAULT_CONVERSATION_TITLE
+          ? deriveTitle(message.content)
+          : active.title
+      };
 
       return {
-        messages: newMessages,
-        contextTokenCount: estimatedTokens,
-        showContextWarning: showWarning
+        conversations: state.conversations.map(c => c.id === active.id ? updated : c),
+        ...activeFields(updated)
+      };
+    });
+  },
+
+  updateMessage: (conversationId: string, messageId: string, content: string, reasoning?: Reasoning) => {
+    set((state) => {
+      const target = state.conversations.find(c => c.id === conversationId);
+      if (!target) return {};
+
+      const updated: Conversation = {
+        ...target,
+        messages: target.messages.map(msg => {
+          if (msg.id !== messageId) return msg;
+          // Keep the active variant in step with the streamed content
+          const variants = msg.variants?.map((v, i) => i === msg.activeVariant ? { ...v, content, reasoning } : v);
+          return { ...msg, content, reasoning, variants };
+        })
+      };
+
+      const conversations = state.conversations.map(c => c.id === conversationId ? updated : c);
+      // Only touch the mirrors when the streamed conversation is on screen
+      return conversationId === state.activeConversationId
+        ? { conversations, messages: getBranch(updated.messages, updated.activeLeafId) }
+        : { conversations };
+    });
+  },
+
+  setMessageStats: (conversationId: string, messageId: string, stats: GenerationStats | null) => {
+    set((state) => {
+      const target = state.conversations.find(c => c.id === conversationId);
+      if (!target) return {};
+
+      const next = stats ?? undefined;
+      const updated: Conversation = {
+        ...target,
+        messages: target.messages.map(msg => {
+          if (msg.id !== messageId) return msg;
+          const variants = msg.variants?.map((v, i) => i === msg.activeVariant ? { ...v, stats: next } : v);
+          return { ...msg, stats: next, variants };
+        })
+      };
+
+      const conversations = state.conversations.map(c => c.id === conversationId ? updated : c);
+      return conversationId === state.activeConversationId
+        ? { conversations, messages: getBranch(updated.messages, updated.activeLeafId) }
+        : { conversations };
+    });
+  },
+
+  // Keep the current reply as a variant and open an empty one to stream into
+  startRegeneration: (conversationId: string, messageId: string) => {
+    set((state) => {
+      const target = state.conversations.find(c => c.id === conversationId);
+      if (!target) return {};
+
+      const now = new Date();
+      const updated: Conversation = {
+        ...target,
+        updatedAt: now,
+        messages: target.messages.map(msg => {
+          if (msg.id !== messageId || msg.role !== 'assistant') return msg;
+          const variants = msg.variants ?? [{ content: msg.content, timestamp: msg.timestamp, stats: msg.stats, reasoning: msg.reasoning }];
+          return {
+            ...msg,
+            content: '',
+            timestamp: now,
+            stats: undefined,
+            reasoning: undefined,
+            variants: [...variants, { content: '', timestamp: now }],
+            activeVariant: variants.length
+          };
+        })
+      };
+
+      const conversations = state.conversations.map(c => c.id === conversationId ? updated : c);
+      return conversationId === state.activeConversationId
+        ? { conversations, ...activeFields(updated) }
+        : { conversations };
+    });
+  },
+
+  selectVariant: (messageId: string, variantIndex: number) => {
+    set((state) => {
+      const active = state.conversations.find(c => c.id === state.activeConversationId);
+      if (!active) return {};
+
+      const updated: Conversation = {
+        ...active,
+        messages: active.messages.map(msg => {
+          const variant = msg.variants?.[variantIndex];
+          if (msg.id !== messageId || !variant) return msg;
+          return {
+            ...msg,
+            content: variant.content,
+            timestamp: variant.timestamp,
+            stats: variant.stats,
+            reasoning: variant.reasoning,
+            activeVariant: variantIndex
+          };
+        })
+      };
+      return {
+        conversations: state.conversations.map(c => c.id === active.id ? updated : c),
+        ...activeFields(updated)
+      };
+    });
+  },
+
+  // Move the branch tip back to messageId (null = before the first message);
+  // the next message starts a new branch and the old one stays in the tree
+  branchFrom: (messageId: string | null) => {
+    set((state) => {
+      const active = state.conversations.find(c => c.id === state.activeConversationId);
+      if (!active) return {};
+      if (messageId !== null && !active.messages.some(m => m.id === messageId)) return {};
+
+      const updated: Conversation = { ...active, activeLeafId: messageId };
+      return {
+        conversations: state.conversations.map(c => c.id === active.id ? updated : c),
+        ...activeFields(updated)
+      };
+    });
+  },
+
+  // Show the branch that runs through messageId (down to its newest leaf)
+  switchBranch: (messageId: string) => {
+    set((state) => {
+      const active = state.conversations.find(c => c.id === state.activeConversationId);
+      if (!active || !active.messages.some(m => m.id === messageId)) return {};
+
+      const updated: Conversation = {
+        ...active,
+        activeLeafId: findBranchLeaf(active.messages, messageId)
+      };
+      return {
+        conversations: state.conversations.map(c => c.id === active.id ? updated : c),
+        ...activeFields(updated)
       };
     });
   },
 
   clearMessages: () => {
-    set({
-      messages: [],
-      contextTokenCount: 0,
-      showContextWarning: false
+    set((state) => {
+      const active = state.conversations.find(c => c.id === state.activeConversationId);
+      if (!active) return {};
+
+      const updated: Conversation = { ...active, messages: [], activeLeafId: null, summaries: [], updatedAt: new Date() };
+      return {
+        conversations: state.conversations.map(c => c.id === active.id ? updated : c),
+        ...activeFields(updated)
+      };
     });
   },
 
@@ -91,21 +560,22 @@ export const useChatStore = create<ChatState>()((set, get) => ({
     // SECURE WIPE: Overwrite message content before clearing
     // This helps prevent memory forensics from recovering chat data
     const state = get();
-    state.messages.forEach(msg => {
-      // Overwrite string content with random data before GC
-      const len = msg.content.length;
-      (msg as any).content = crypto.getRandomValues(new Uint8Array(len)).toString();
-      (msg as any).role = '';
-    });
+    state.conversations.forEach(wipeConversation);
 
-    // Clear the messages array
+    // Replace every conversation with a single empty one
+    // (the fresh conversation also has no system instruction, for privacy)
+    // Storage is switched off in the same update so the auto-save never fires
+    const conversation = createEmptyConversation(state.selectedModel);
     set({
-      messages: [],
-      contextTokenCount: 0,
-      showContextWarning: false,
-      systemInstruction: '' // Also clear system instruction for privacy
+      conversations: [conversation],
+      ...activeFields(conversation),
+      storageEnabled: false,
+      vaultStatus: 'none'
     });
 
+    // Destroy the encrypted vault as well - "clear all" means nothing survives
+    localVault.destroy().catch(() => {});
+
     // Clear any potential browser storage
     try {
       localStorage.clear();
@@ -159,15 +629,20 @@ export const useChatStore = create<ChatState>()((set, get) => ({
   },
 
   setSelectedModel: (model: ModelConfig) => {
-    set({ selectedModel: model });
+    set((state) => ({
+      selectedModel: model,
+      conversations: state.conversations.map(c =>
+        c.id === state.activeConversationId ? { ...c, model } : c
+      )
+    }));
   },
 
   setGenerating: (isGenerating: boolean) => {
     set({ isGenerating });
   },
 
-  setModelLoadingProgress: (progress: number, status: string) => {
-    set({ modelLoadingProgress: progress, modelLoadingStatus: status });
+  setModelLoadingProgress: (progress: number, status: string, download?: DownloadProgress) => {
+    set({ modelLoadingProgress: progress, modelLoadingStatus: status, modelDownload: download ?? null });
   },
 
   toggleDarkMode: () => {
@@ -194,39 +669,228 @@ export const useChatStore = create<ChatState>()((set, get) => ({
     set({ autoDeleteChats: autoDelete });
   },
 
+  setAutoCompact: (autoCompact: boolean) => {
+    set({ autoCompact });
+  },
+
+  setRunInWorker: (runInWorker: boolean) => {
+    set({ runInWorker });
+  },
+
+  setLocalServer: (localServer: LocalServerSettings) => {
+    set({ localServer });
+  },
+
+  // Re-registering an id replaces the earlier entry
+  addCustomModels: (models: ModelConfig[]) => {
+    set((state) => withCustomModels([
+      ...state.customModels.filter(existing => !models.some(m => m.id === existing.id)),
+      ...models
+    ]));
+  },
+
+  removeCustomModel: (id: string) => {
+    set((state) => withCustomModels(state.customModels.filter(m => m.id !== id)));
+  },
+
+  // Throws if the URL is not on this site or localhost
+  setModelMirrorUrl: (url: string) => {
+    setModelMirror(url);
+    set({ modelMirrorUrl: getModelMirror() });
+  },
+
+  setBenchmark: (benchmark: BenchmarkResult | null) => {
+    set({ benchmark });
+  },
+
+  setHardwareOverride: (hardwareOverride: HardwareOverride) => {
+    set({ hardwareOverride });
+  },
+
+  setLastLoadError: (lastLoadError: LoadErrorRecord | null) => {
+    set({ lastLoadError });
+  },
+
+  addContextSummary: (conversationId: string, summary: ContextSummary) => {
+    set((state) => ({
+      conversations: state.conversations.map(c =>
+        c.id === conversationId ? { ...c, summaries: [...c.summaries, summary], updatedAt: new Date() } : c
+      )
+    }));
+  },
+
+  removeContextSummary: (conversationId: string, summaryId: string) => {
+    set((state) => ({
+      conversations: state.conversations.map(c =>
+        c.id === conversationId ? { ...c, summaries: c.summaries.filter(s => s.id !== summaryId) } : c
+      )
+    }));
+  },
+
   setSystemInstruction: (instruction: string) => {
-    set({ systemInstruction: instruction });
+    set((state) => ({
+      systemInstruction: instruction,
+      conversations: state.conversations.map(c =>
+        c.id === state.activeConversationId ? { ...c, systemInstruction: instruction, updatedAt: new Date() } : c
+      )
+    }));
   },
 
-  // Note: Storage is always disabled for privacy - these functions are no-ops
-  enableStorage: () => {
-    // Intentionally does nothing - storage always disabled for privacy
-    set({ storageEnabled: false });
+  setGenerationSettings: (settings: Partial<GenerationSettings>) => {
+    set((state) => {
+      const generationSettings = normalizeGenerationSettings({ ...state.generationSettings, ...settings });
+      return {
+        generationSettings,
+        conversations: state.conversations.map(c =>
+          c.id === state.activeConversationId ? { ...c, generationSettings, updatedAt: new Date() } : c
+        )
+      };
+    });
   },
 
-  disableStorage: () => {
-    set({ storageEnabled: false });
+  initVault: async () => {
+    try {
+      if (await localVault.exists()) {
+        set({ vaultStatus: localVault.isUnlocked() ? 'unlocked' : 'locked' });
+      }
+    } catch {
+      // IndexedDB not available - stay in-memory only
+    }
+  },
+
+  // Opt-in: create a passphrase-protected vault seeded with the current chats
+  enableStorage: async (passphrase: string) => {
+    await localVault.create(passphrase);
+    // Auto-delete would wipe what the user just asked to keep
+    set({ storageEnabled: true, vaultStatus: 'unlocked', autoDeleteChats: false });
+    await localVault.save(buildSnapshot(get()));
+  },
+
+  unlockStorage: async (passphrase: string) => {
+    await localVault.unlock(passphrase);
+    const snapshot = await localVault.load<VaultSnapshot>();
+
+    set((state) => {
+      const saved = (snapshot?.conversations ?? []).map(reviveConversation);
+      // Keep anything typed before unlocking that isn't already in the vault
+      const unsaved = state.conversations.filter(c =>
+        c.messages.length > 0 && !saved.some(v => v.id === c.id)
+      );
+      const conversations = [...unsaved, ...saved];
+      if (conversations.length === 0) {
+        conversations.push(createEmptyConversation(state.selectedModel));
+      }
+      const active = conversations.find(c => c.id === snapshot?.activeConversationId) ?? conversations[0];
+
+      return {
+        conversations,
+        ...activeFields(active),
+        autoDeleteChats: snapshot?.settings.autoDeleteChats ?? state.autoDeleteChats,
+        autoCompact: snapshot?.settings.autoCompact ?? state.autoCompact,
+        runInWorker: snapshot?.settings.runInWorker ?? state.runInWorker,
+        localServer: snapshot?.settings.localServer ?? state.localServer,
+        ...withCustomModels(snapshot?.settings.customModels?.map(upgradeCustomModel) ?? state.customModels),
+        ...withModelMirror(snapshot?.settings.modelMirrorUrl ?? state.modelMirrorUrl),
+        benchmark: snapshot?.settings.benchmark ?? state.benchmark,
+        hardwareOverride: snapshot?.settings.hardwareOverride ?? state.hardwareOverride,
+        storageEnabled: true,
+        vaultStatus: 'unlocked'
+      };
+    });
+  },
+
+  // Save, forget the key and drop the decrypted chats from memory
+  lockStorage: async () => {
+    await localVault.save(buildSnapshot(get()));
+    localVault.lock();
+
+    const state = get();
+    state.conversations.forEach(wipeConversation);
+    const conversation = createEmptyConversation(state.selectedModel);
+    set({
+      conversations: [conversation],
+      ...activeFields(conversation),
+      storageEnabled: false,
+      vaultStatus: 'locked'
+    });
+  },
+
+  // Permanently delete the vault; chats currently in memory are kept
+  disableStorage: async () => {
+    set({ storageEnabled: false, vaultStatus: 'none' });
+    await localVault.destroy();
   },
 
   exportChat: () => {
     const state = get();
+    const active = state.conversations.find(c => c.id === state.activeConversationId);
     const markdown = state.messages
-      .map(msg => `**${msg.role === 'user' ? 'You' : 'AI'}**: ${msg.content}`)
+      .map(msg => {
+        const line = `**${msg.role === 'user' ? 'You' : 'AI'}**: ${msg.content}`;
+        return msg.stats ? `${line}\n\n_${formatGenerationStats(msg.stats)}_` : line;
+      })
       .join('\n\n');
 
-    const header = `# OBLIVAI Chat Export\n\nExported: ${new Date().toISOString()}\nModel: ${state.selectedModel?.name || 'Unknown'}\n\n---\n\n`;
+    const header = `# OBLIVAI Chat Export\n\nConversation: ${active?.title || 'Untitled'}\nExported: ${new Date().toISOString()}\nModel: ${active?.model?.name || state.selectedModel?.name || 'Unknown'}\n\n---\n\n`;
 
     return header + markdown;
   },
 
   updateContextTokenCount: (count: number) => {
-    set({
-      contextTokenCount: count,
-      showContextWarning: count > 2048
+    set((state) => {
+      // Budget against the model the conversation runs on, as activeFields does
+      const active = state.conversations.find(c => c.id === state.activeConversationId);
+      return {
+        contextTokenCount: count,
+        showContextWarning: count > getContextWindow(active?.model) * CONTEXT_WARNING_RATIO
+      };
     });
   },
 
   dismissContextWarning: () => {
     set({ showContextWarning: false });
   }
-}));
\ No newline at end of file
+}));
+
+// Auto-save to the encrypted vault (debounced - streaming updates every token)
+const VAULT_SAVE_DEBOUNCE_MS = 1000;
+let vaultSaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+useChatStore.subscribe((state, prev) => {
+  if (state.vaultStatus !== 'unlocked') return;
+  if (state.conversations === prev.conversations &&
+      state.activeConversationId === prev.activeConversationId &&
+      state.autoDeleteChats === prev.autoDeleteChats &&
+      state.autoCompact === prev.autoCompact &&
+      state.runInWorker === prev.runInWorker &&
+      state.localServer === prev.localServer &&
+      state.customModels === prev.customModels &&
+      state.modelMirrorUrl === prev.modelMirrorUrl &&
+      state.benchmark === prev.benchmark &&
+      state.hardwareOverride === prev.hardwareOverride) {
+    return;
+  }
+
+  if (vaultSaveTimer) clearTimeout(vaultSaveTimer);
+  vaultSaveTimer = setTimeout(saveVaultNow, VAULT_SAVE_DEBOUNCE_MS);
+});
+
+function saveVaultNow(): void {
+  if (vaultSaveTimer) clearTimeout(vaultSaveTimer);
+  vaultSaveTimer = null;
+  const latest = useChatStore.getState();
+  if (latest.vaultStatus === 'unlocked' && localVault.isUnlocked()) {
+    localVault.save(buildSnapshot(latest)).catch(() => {
+      // Vault write failed (quota, private mode) - data is still in memory
+    });
+  }
+}
+
+// The tab can close inside the debounce window; write a pending save right away
+const flushVaultSave = () => {
+  if (vaultSaveTimer) saveVaultNow();
+};
+window.addEventListener('pagehide', flushVaultSave);
+document.addEventListener('visibilitychange', () => {
+  if (document.hidden) flushVaultSave();
+});
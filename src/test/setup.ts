@@ -0,0 +1,12 @@
+// Test Setup
+// Fills in the browser APIs jsdom lacks and unmounts rendered components
+// after each test (Testing Library only does that itself with test globals).
+
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+Element.prototype.scrollIntoView ??= () => {};
+
+afterEach(() => {
+  cleanup();
+});